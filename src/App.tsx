@@ -1,14 +1,18 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { ConfigProvider, theme, App as AntApp } from "antd";
 import zhCN from "antd/locale/zh_CN";
 import FloatingButton from "./components/FloatingButton";
 import InfoModal from "./components/InfoModal";
 import { AppProvider } from "./contexts/AppContext";
 import StorageMigrator from "./components/StorageMigrator";
+import { cacheManager } from "./utils/cacheManager";
 
 const App: React.FC = () => {
   const [modalVisible, setModalVisible] = useState(false);
 
+  // 定期清理过期缓存并监控存储配额
+  useEffect(() => cacheManager.startSweeper(), []);
+
   const handleOpenModal = () => {
     setModalVisible(true);
   };
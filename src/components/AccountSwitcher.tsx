@@ -0,0 +1,218 @@
+/**
+ * 账号切换：查看本地其他账号的缓存数据，按账号清除缓存
+ */
+import React, { useEffect, useState } from "react";
+import {
+  Button,
+  Modal,
+  Popconfirm,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { DeleteOutlined, UserSwitchOutlined } from "@ant-design/icons";
+import { graphStore } from "../services/graphStore";
+import { KnownAccount, accountScope } from "../utils/accountScope";
+import { cacheManager } from "../utils/cacheManager";
+import { useAppContext } from "../contexts/AppContext";
+
+const { Text } = Typography;
+
+/** 清除缓存表格中的一行，mid 为 null 表示旧版未区分账号的缓存 */
+interface AccountCacheRow {
+  key: string;
+  mid: number | null;
+  name: string;
+  entries: number | null;
+}
+
+/**
+ * 订阅当前使用的账号，切换查看账号时更新
+ */
+export const useActiveAccountMid = (): number => {
+  const [activeMid, setActiveMid] = useState(() => accountScope.getActiveMid());
+
+  useEffect(
+    () =>
+      accountScope.subscribe(() => setActiveMid(accountScope.getActiveMid())),
+    [],
+  );
+
+  return activeMid;
+};
+
+const formatAccountName = (account: KnownAccount): string =>
+  account.uname ? `${account.uname} (${account.mid})` : `UID ${account.mid}`;
+
+const AccountSwitcher: React.FC = () => {
+  const { message } = useAppContext();
+  const activeMid = useActiveAccountMid();
+  const [accounts, setAccounts] = useState<KnownAccount[]>([]);
+  const [purgeOpen, setPurgeOpen] = useState(false);
+  const [rows, setRows] = useState<AccountCacheRow[]>([]);
+  const [purging, setPurging] = useState<string | null>(null);
+
+  const loggedInMid = accountScope.getLoggedInMid();
+  const viewingOther = accountScope.isViewingOtherAccount();
+
+  useEffect(() => {
+    // 记录当前登录账号，昵称在首次请求登录状态时补全
+    accountScope.registerAccount(loggedInMid);
+    setAccounts(accountScope.listAccounts());
+    return accountScope.subscribe(() =>
+      setAccounts(accountScope.listAccounts()),
+    );
+  }, []);
+
+  const loadRows = async () => {
+    const accountRows: AccountCacheRow[] = accounts.map((account) => ({
+      key: String(account.mid),
+      mid: account.mid,
+      name: formatAccountName(account),
+      entries: null,
+    }));
+    const legacyRow: AccountCacheRow = {
+      key: "legacy",
+      mid: null,
+      name: "旧版缓存（未区分账号）",
+      entries: null,
+    };
+    setRows([...accountRows, legacyRow]);
+
+    const counts = await Promise.all([
+      ...accountRows.map((row) => cacheManager.countAccountEntries(row.mid!)),
+      cacheManager.countLegacyEntries(),
+    ]);
+    setRows(
+      [...accountRows, legacyRow].map((row, index) => ({
+        ...row,
+        entries: counts[index],
+      })),
+    );
+  };
+
+  useEffect(() => {
+    if (purgeOpen) loadRows();
+  }, [purgeOpen, accounts]);
+
+  const handlePurge = async (row: AccountCacheRow) => {
+    setPurging(row.key);
+    try {
+      if (row.mid === null) {
+        await Promise.all([
+          cacheManager.purgeLegacy(),
+          graphStore.purgeLegacy(),
+        ]);
+      } else {
+        await Promise.all([
+          cacheManager.purgeAccount(row.mid),
+          graphStore.purgeAccount(row.mid),
+        ]);
+        // 非登录账号清除后已无数据可查看，一并从列表移除
+        if (row.mid !== loggedInMid) {
+          accountScope.unregisterAccount(row.mid);
+        }
+      }
+      message.success(`已清除${row.name}的缓存`);
+      await loadRows();
+    } finally {
+      setPurging(null);
+    }
+  };
+
+  const columns: ColumnsType<AccountCacheRow> = [
+    {
+      title: "账号",
+      dataIndex: "name",
+      key: "name",
+      render: (name: string, row) => (
+        <Space>
+          <span>{name}</span>
+          {row.mid === loggedInMid && <Tag color="blue">当前登录</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: "缓存条目",
+      dataIndex: "entries",
+      key: "entries",
+      width: 100,
+      render: (entries: number | null) => entries ?? "-",
+    },
+    {
+      title: "操作",
+      key: "action",
+      width: 100,
+      render: (_, row) => (
+        <Popconfirm
+          title={`确认清除${row.name}的缓存？`}
+          okButtonProps={{ danger: true }}
+          onConfirm={() => handlePurge(row)}
+          disabled={row.entries === 0}
+        >
+          <Button
+            size="small"
+            danger
+            icon={<DeleteOutlined />}
+            loading={purging === row.key}
+            disabled={row.entries === 0}
+          >
+            清除
+          </Button>
+        </Popconfirm>
+      ),
+    },
+  ];
+
+  return (
+    <Space>
+      {viewingOther && (
+        <Tooltip title="正在查看其他账号的缓存，只显示已缓存的数据，不会发起请求">
+          <Tag color="orange">只读</Tag>
+        </Tooltip>
+      )}
+      <Select<number>
+        style={{ width: 220 }}
+        value={activeMid || undefined}
+        placeholder="未登录"
+        onChange={(mid) => accountScope.viewAccount(mid)}
+        suffixIcon={<UserSwitchOutlined />}
+        options={accounts.map((account) => ({
+          value: account.mid,
+          label:
+            account.mid === loggedInMid
+              ? `${formatAccountName(account)} · 当前登录`
+              : formatAccountName(account),
+        }))}
+        notFoundContent="暂无本地账号"
+      />
+      <Button icon={<DeleteOutlined />} onClick={() => setPurgeOpen(true)}>
+        清除账号缓存
+      </Button>
+      <Modal
+        title="按账号清除缓存"
+        open={purgeOpen}
+        onCancel={() => setPurgeOpen(false)}
+        footer={null}
+        width={560}
+      >
+        <Table
+          columns={columns}
+          dataSource={rows}
+          rowKey="key"
+          size="small"
+          pagination={false}
+        />
+        <Text type="secondary" style={{ display: "block", marginTop: 8 }}>
+          清除后需重新请求数据；其他账号的缓存只能在登录该账号时重新生成
+        </Text>
+      </Modal>
+    </Space>
+  );
+};
+
+export default AccountSwitcher;
@@ -0,0 +1,177 @@
+/**
+ * 备份与恢复：导出全部本地数据到文件，从文件合并或替换本地数据
+ */
+import React, { useState } from "react";
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Descriptions,
+  Modal,
+  Radio,
+  Space,
+  Upload,
+} from "antd";
+import { DownloadOutlined, UploadOutlined } from "@ant-design/icons";
+import { useAppContext } from "../contexts/AppContext";
+import {
+  BackupFile,
+  RestoreMode,
+  backupManager,
+} from "../services/backupManager";
+import { formatBytes } from "../utils/formatters";
+
+interface BackupControlsProps {
+  /** 导入完成后调用，用于刷新列表 */
+  onRestored?: () => void;
+}
+
+/** 待导入的备份及其文件信息 */
+interface PendingRestore {
+  fileName: string;
+  fileSize: number;
+  backup: BackupFile;
+}
+
+const BackupControls: React.FC<BackupControlsProps> = ({ onRestored }) => {
+  const { message } = useAppContext();
+  const compressionSupported = backupManager.isCompressionSupported();
+  const [compress, setCompress] = useState(compressionSupported);
+  const [exporting, setExporting] = useState(false);
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [restoring, setRestoring] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await backupManager.exportBlob(compress);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `bilibili-helper-backup-${Date.now()}.json${compress ? ".gz" : ""}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      message.success(`已导出备份 (${formatBytes(blob.size)})`);
+    } catch (error) {
+      message.error(
+        `导出失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleSelectFile = async (file: File) => {
+    try {
+      const backup = await backupManager.readFile(file);
+      setMode("merge");
+      setPending({ fileName: file.name, fileSize: file.size, backup });
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending) return;
+    setRestoring(true);
+    try {
+      const stats = await backupManager.restore(pending.backup, mode);
+      message.success(
+        `导入完成: 缓存 ${stats.cache} 条，用户 ${stats.users} 个，关系 ${stats.edges} 条${
+          stats.failed > 0 ? `，${stats.failed} 项因空间不足未写入` : ""
+        }`,
+      );
+      setPending(null);
+      onRestored?.();
+    } catch (error) {
+      message.error(
+        `导入失败: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const stores = pending?.backup.indexedDB;
+
+  return (
+    <Space>
+      <Button
+        icon={<DownloadOutlined />}
+        loading={exporting}
+        onClick={handleExport}
+      >
+        导出备份
+      </Button>
+      <Checkbox
+        checked={compress}
+        disabled={!compressionSupported}
+        onChange={(e) => setCompress(e.target.checked)}
+      >
+        gzip 压缩
+      </Checkbox>
+      <Upload
+        accept=".json,.gz,application/json,application/gzip"
+        showUploadList={false}
+        beforeUpload={(file) => {
+          handleSelectFile(file);
+          return false;
+        }}
+      >
+        <Button icon={<UploadOutlined />}>导入备份</Button>
+      </Upload>
+      <Modal
+        title="导入备份"
+        open={pending !== null}
+        onCancel={() => setPending(null)}
+        onOk={handleRestore}
+        okText="导入"
+        okButtonProps={{ danger: mode === "replace", loading: restoring }}
+        width={520}
+      >
+        {pending && stores && (
+          <>
+            <Descriptions size="small" column={2} style={{ marginBottom: 16 }}>
+              <Descriptions.Item label="文件" span={2}>
+                {pending.fileName} ({formatBytes(pending.fileSize)})
+              </Descriptions.Item>
+              <Descriptions.Item label="导出时间" span={2}>
+                {new Date(pending.backup.exportedAt).toLocaleString("zh-CN")}
+              </Descriptions.Item>
+              <Descriptions.Item label="缓存条目">
+                {stores.cache.length}
+              </Descriptions.Item>
+              <Descriptions.Item label="localStorage">
+                {Object.keys(pending.backup.localStorage).length}
+              </Descriptions.Item>
+              <Descriptions.Item label="用户">
+                {stores.users.length}
+              </Descriptions.Item>
+              <Descriptions.Item label="关系">
+                {stores.edges.length}
+              </Descriptions.Item>
+            </Descriptions>
+            <Radio.Group
+              value={mode}
+              onChange={(e) => setMode(e.target.value)}
+              style={{ marginBottom: 12 }}
+            >
+              <Radio value="merge">合并（同一条目保留更新的一份）</Radio>
+              <Radio value="replace">替换本地数据</Radio>
+            </Radio.Group>
+            {mode === "replace" && (
+              <Alert
+                type="warning"
+                showIcon
+                message="将先清空本地所有缓存、关系网络和账号列表，再导入备份"
+              />
+            )}
+          </>
+        )}
+      </Modal>
+    </Space>
+  );
+};
+
+export default BackupControls;
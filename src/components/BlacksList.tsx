@@ -0,0 +1,14 @@
+import React from "react";
+import { iterateBlacks } from "../services/biliApi";
+import { batchUnblock } from "../services/relationBatch";
+import SelfRelationList from "./shared/SelfRelationList";
+
+const BlacksList: React.FC = () => (
+  <SelfRelationList
+    title="黑名单"
+    loadPages={iterateBlacks}
+    removeAction={{ label: "移出黑名单", run: batchUnblock }}
+  />
+);
+
+export default BlacksList;
@@ -0,0 +1,376 @@
+/**
+ * 缓存检查器：列出 IndexedDB 和 localStorage 中的缓存条目，支持搜索、删除、刷新、按类型清除和备份导入导出
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  Button,
+  Card,
+  Col,
+  Input,
+  Popconfirm,
+  Row,
+  Select,
+  Space,
+  Statistic,
+  Table,
+  Tag,
+  Tooltip,
+  Typography,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import {
+  ClearOutlined,
+  DeleteOutlined,
+  ReloadOutlined,
+  SyncOutlined,
+} from "@ant-design/icons";
+import { useAppContext } from "../contexts/AppContext";
+import {
+  CacheKeyInfo,
+  describeCacheKey,
+  refreshCacheEntry,
+} from "../services/biliApi";
+import { describeApiError } from "../services/errors";
+import { accountScope, parseNamespacedKey } from "../utils/accountScope";
+import {
+  CacheEntryInfo,
+  CacheStore,
+  cacheManager,
+} from "../utils/cacheManager";
+import { formatBytes, formatRelativeTime } from "../utils/formatters";
+import BackupControls from "./BackupControls";
+
+const { Text } = Typography;
+
+/** 表格中的一行 */
+interface CacheEntryRow extends CacheEntryInfo {
+  rowKey: string;
+  info: CacheKeyInfo;
+  /** 所属账号的显示名 */
+  owner: string;
+}
+
+const STORE_TAGS: Record<CacheStore, { text: string; color: string }> = {
+  indexedDB: { text: "IndexedDB", color: "blue" },
+  localStorage: { text: "localStorage", color: "orange" },
+};
+
+/**
+ * 所属账号的显示名
+ */
+const formatOwner = (mid: number | null, names: Map<number, string>) => {
+  if (mid === null) return "旧版（未区分账号）";
+  if (mid === 0) return "未登录";
+  return names.get(mid) ?? `UID ${mid}`;
+};
+
+const CacheInspector: React.FC = () => {
+  const { message } = useAppContext();
+  const [rows, setRows] = useState<CacheEntryRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState<string | undefined>();
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    try {
+      const names = new Map(
+        accountScope
+          .listAccounts()
+          .map((account) => [
+            account.mid,
+            account.uname ?? `UID ${account.mid}`,
+          ]),
+      );
+      const entries = await cacheManager.listEntries();
+      setRows(
+        entries.map((entry) => ({
+          ...entry,
+          rowKey: `${entry.store}:${entry.key}`,
+          info: describeCacheKey(entry.key),
+          owner: formatOwner(entry.mid, names),
+        })),
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, []);
+
+  const filteredRows = useMemo(() => {
+    const keyword = search.trim().toLowerCase();
+    return rows.filter(
+      (row) =>
+        (!typeFilter || row.info.type === typeFilter) &&
+        (!keyword ||
+          row.key.toLowerCase().includes(keyword) ||
+          row.info.label.toLowerCase().includes(keyword) ||
+          row.owner.toLowerCase().includes(keyword)),
+    );
+  }, [rows, search, typeFilter]);
+
+  const typeOptions = useMemo(() => {
+    const counts = new Map<string, { label: string; count: number }>();
+    rows.forEach((row) => {
+      const existing = counts.get(row.info.type);
+      counts.set(row.info.type, {
+        label: row.info.label,
+        count: (existing?.count ?? 0) + 1,
+      });
+    });
+    return [...counts].map(([type, { label, count }]) => ({
+      value: type,
+      label: `${label} (${count})`,
+    }));
+  }, [rows]);
+
+  const totals = useMemo(() => {
+    const result: Record<CacheStore, { entries: number; bytes: number }> = {
+      indexedDB: { entries: 0, bytes: 0 },
+      localStorage: { entries: 0, bytes: 0 },
+    };
+    rows.forEach((row) => {
+      result[row.store].entries++;
+      result[row.store].bytes += row.bytes;
+    });
+    return result;
+  }, [rows]);
+
+  const removeRows = async (targets: CacheEntryRow[]) => {
+    await cacheManager.removeEntries(targets);
+    const removed = new Set(targets.map((row) => row.rowKey));
+    setRows((prev) => prev.filter((row) => !removed.has(row.rowKey)));
+  };
+
+  const handleDelete = async (row: CacheEntryRow) => {
+    setBusyKey(row.rowKey);
+    try {
+      await removeRows([row]);
+      message.success("已删除缓存条目");
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleRefresh = async (row: CacheEntryRow) => {
+    setBusyKey(row.rowKey);
+    try {
+      await refreshCacheEntry(parseNamespacedKey(row.key).key);
+      message.success(`已刷新${row.info.label}`);
+      await loadEntries();
+    } catch (error) {
+      message.error(`刷新失败: ${describeApiError(error)}`);
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handlePurgeType = async () => {
+    const targets = filteredRows;
+    await removeRows(targets);
+    message.success(`已清除 ${targets.length} 个缓存条目`);
+  };
+
+  /** 只能刷新当前登录账号的条目，查看其他账号时不发起请求 */
+  const canRefresh = (row: CacheEntryRow): boolean =>
+    row.info.refreshable &&
+    !accountScope.isViewingOtherAccount() &&
+    row.mid === accountScope.getLoggedInMid();
+
+  const columns: ColumnsType<CacheEntryRow> = [
+    {
+      title: "键",
+      dataIndex: "key",
+      key: "key",
+      ellipsis: { showTitle: false },
+      render: (key: string) => (
+        <Tooltip title={key} placement="topLeft">
+          <Text code>{key}</Text>
+        </Tooltip>
+      ),
+    },
+    {
+      title: "类型",
+      key: "type",
+      width: 130,
+      render: (_, row) => <Tag>{row.info.label}</Tag>,
+    },
+    {
+      title: "存储",
+      dataIndex: "store",
+      key: "store",
+      width: 120,
+      render: (store: CacheStore) => (
+        <Tag color={STORE_TAGS[store].color}>{STORE_TAGS[store].text}</Tag>
+      ),
+    },
+    {
+      title: "账号",
+      dataIndex: "owner",
+      key: "owner",
+      width: 140,
+      ellipsis: true,
+    },
+    {
+      title: "大小",
+      dataIndex: "bytes",
+      key: "bytes",
+      width: 90,
+      sorter: (a, b) => a.bytes - b.bytes,
+      render: (bytes: number) => formatBytes(bytes),
+    },
+    {
+      title: "写入",
+      dataIndex: "writtenAt",
+      key: "writtenAt",
+      width: 100,
+      sorter: (a, b) => (a.writtenAt ?? 0) - (b.writtenAt ?? 0),
+      render: (writtenAt: number | null) =>
+        writtenAt === null ? "-" : formatRelativeTime(writtenAt),
+    },
+    {
+      title: "过期",
+      dataIndex: "expiry",
+      key: "expiry",
+      width: 100,
+      sorter: (a, b) => a.expiry - b.expiry,
+      render: (expiry: number) =>
+        expiry > 0 ? (
+          <Tooltip title={new Date(expiry).toLocaleString("zh-CN")}>
+            <Text type={expiry < Date.now() ? "danger" : undefined}>
+              {formatRelativeTime(expiry)}
+            </Text>
+          </Tooltip>
+        ) : (
+          <Text type="danger">已损坏</Text>
+        ),
+    },
+    {
+      title: "操作",
+      key: "action",
+      width: 100,
+      render: (_, row) => (
+        <Space size={4}>
+          <Tooltip
+            title={
+              canRefresh(row) ? "重新请求" : "只能刷新当前登录账号的接口缓存"
+            }
+          >
+            <Button
+              size="small"
+              type="text"
+              icon={<SyncOutlined />}
+              disabled={!canRefresh(row) || busyKey !== null}
+              loading={busyKey === row.rowKey}
+              onClick={() => handleRefresh(row)}
+            />
+          </Tooltip>
+          <Popconfirm
+            title="确认删除该缓存条目？"
+            okButtonProps={{ danger: true }}
+            onConfirm={() => handleDelete(row)}
+          >
+            <Button
+              size="small"
+              type="text"
+              danger
+              icon={<DeleteOutlined />}
+              disabled={busyKey !== null}
+            />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  const selectedLabel = rows.find((row) => row.info.type === typeFilter)?.info
+    .label;
+
+  return (
+    <div style={{ padding: "16px 0", height: "100%", overflow: "auto" }}>
+      <Card size="small" style={{ marginBottom: 16 }}>
+        <Row gutter={16}>
+          <Col span={6}>
+            <Statistic
+              title="IndexedDB 条目"
+              value={totals.indexedDB.entries}
+            />
+          </Col>
+          <Col span={6}>
+            <Statistic
+              title="IndexedDB 占用"
+              value={formatBytes(totals.indexedDB.bytes)}
+            />
+          </Col>
+          <Col span={6}>
+            <Statistic
+              title="localStorage 条目"
+              value={totals.localStorage.entries}
+            />
+          </Col>
+          <Col span={6}>
+            <Statistic
+              title="localStorage 占用"
+              value={formatBytes(totals.localStorage.bytes)}
+            />
+          </Col>
+        </Row>
+      </Card>
+
+      <Space style={{ marginBottom: 16 }} wrap>
+        <Input.Search
+          placeholder="搜索键、类型或账号"
+          allowClear
+          style={{ width: 260 }}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <Select
+          placeholder="全部类型"
+          allowClear
+          style={{ width: 200 }}
+          value={typeFilter}
+          onChange={setTypeFilter}
+          options={typeOptions}
+        />
+        <Popconfirm
+          title={`确认清除筛选出的 ${filteredRows.length} 个${selectedLabel ? `「${selectedLabel}」` : ""}缓存条目？`}
+          okButtonProps={{ danger: true }}
+          onConfirm={handlePurgeType}
+          disabled={!typeFilter || filteredRows.length === 0}
+        >
+          <Button
+            danger
+            icon={<ClearOutlined />}
+            disabled={!typeFilter || filteredRows.length === 0}
+          >
+            按类型清除
+          </Button>
+        </Popconfirm>
+        <Button icon={<ReloadOutlined />} onClick={loadEntries}>
+          刷新列表
+        </Button>
+        <Text type="secondary">
+          显示 {filteredRows.length} / {rows.length} 个条目
+        </Text>
+        <BackupControls onRestored={loadEntries} />
+      </Space>
+
+      <Table
+        columns={columns}
+        dataSource={filteredRows}
+        rowKey="rowKey"
+        size="small"
+        loading={loading}
+        pagination={{ pageSize: 20, showSizeChanger: false }}
+        locale={{ emptyText: "暂无缓存" }}
+      />
+    </div>
+  );
+};
+
+export default CacheInspector;
@@ -0,0 +1,366 @@
+import React, { useEffect, useState } from "react";
+import {
+  Button,
+  Card,
+  Col,
+  Progress,
+  Row,
+  Space,
+  Statistic,
+  Table,
+  Tag,
+  Typography,
+} from "antd";
+import type { ColumnsType } from "antd/es/table";
+import {
+  ClearOutlined,
+  DownloadOutlined,
+  ReloadOutlined,
+} from "@ant-design/icons";
+import { getTransport } from "../services/biliApi";
+import {
+  EndpointTelemetry,
+  LatencySummary,
+  TelemetrySnapshot,
+  requestTelemetry,
+} from "../services/telemetry";
+import { SchedulerSnapshot, requestScheduler } from "../services/scheduler";
+import {
+  CircuitBreakerSnapshot,
+  CircuitState,
+  circuitBreaker,
+} from "../services/circuitBreaker";
+import { DriftLogEntry, schemaDriftLog } from "../services/schema";
+import { StorageReport, cacheManager } from "../utils/cacheManager";
+import type { StorageUsage } from "../utils/indexedDBManager";
+import { formatBytes } from "../utils/formatters";
+import logger from "../utils/logger";
+import metadata from "../metadata.json";
+
+const { Text } = Typography;
+
+const CIRCUIT_STATE_TAGS: Record<
+  CircuitState,
+  { text: string; color: string }
+> = {
+  closed: { text: "正常", color: "green" },
+  open: { text: "熔断中", color: "red" },
+  half_open: { text: "恢复中", color: "orange" },
+};
+
+const formatRatio = (ratio: number | null): string =>
+  ratio === null ? "-" : `${(ratio * 100).toFixed(1)}%`;
+
+const formatLatency = (summary: LatencySummary | null): string =>
+  summary ? `${summary.p50} / ${summary.p90} / ${summary.p99}` : "-";
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString("zh-CN");
+
+const renderUsage = (
+  label: string,
+  usage: Pick<StorageUsage, "bytes" | "maxBytes"> & { entries?: number },
+) => (
+  <div>
+    <Text type="secondary">
+      {label}：{usage.entries !== undefined && `${usage.entries} 项，`}
+      {formatBytes(usage.bytes)} / {formatBytes(usage.maxBytes)}
+    </Text>
+    <Progress
+      percent={Math.round((usage.bytes / usage.maxBytes) * 100)}
+      size="small"
+    />
+  </div>
+);
+
+const endpointColumns: ColumnsType<EndpointTelemetry> = [
+  {
+    title: "接口",
+    dataIndex: "endpoint",
+    key: "endpoint",
+    render: (endpoint: string) => <Text code>{endpoint}</Text>,
+  },
+  { title: "请求", dataIndex: "attempts", key: "attempts", width: 70 },
+  { title: "失败", dataIndex: "failures", key: "failures", width: 70 },
+  { title: "重试", dataIndex: "retries", key: "retries", width: 70 },
+  {
+    title: "风控",
+    dataIndex: "riskControlHits",
+    key: "riskControlHits",
+    width: 70,
+    render: (hits: number) =>
+      hits > 0 ? <Text type="danger">{hits}</Text> : hits,
+  },
+  { title: "复用", dataIndex: "dedupHits", key: "dedupHits", width: 70 },
+  {
+    title: "缓存命中",
+    key: "cache",
+    width: 110,
+    render: (_, record) =>
+      `${formatRatio(record.cacheHitRatio)} (${record.cacheHits + record.staleHits}/${record.cacheHits + record.staleHits + record.cacheMisses})`,
+  },
+  {
+    title: "耗时 p50/p90/p99 (ms)",
+    key: "latency",
+    width: 160,
+    render: (_, record) => formatLatency(record.latency),
+  },
+  {
+    title: "排队 p50/p90/p99 (ms)",
+    key: "queueWait",
+    width: 160,
+    render: (_, record) => formatLatency(record.queueWait),
+  },
+];
+
+const driftColumns: ColumnsType<DriftLogEntry> = [
+  {
+    title: "接口",
+    dataIndex: "endpoint",
+    key: "endpoint",
+    render: (endpoint: string) => <Text code>{endpoint}</Text>,
+  },
+  {
+    title: "字段",
+    dataIndex: "path",
+    key: "path",
+    render: (path: string) => <Text code>{path}</Text>,
+  },
+  {
+    title: "期望 / 实际",
+    key: "type",
+    render: (_, record) => `${record.expected} / ${record.received}`,
+  },
+  {
+    title: "影响",
+    dataIndex: "severity",
+    key: "severity",
+    width: 90,
+    render: (severity: DriftLogEntry["severity"]) =>
+      severity === "fatal" ? (
+        <Tag color="red">响应被拒绝</Tag>
+      ) : (
+        <Tag color="orange">已降级</Tag>
+      ),
+  },
+  { title: "次数", dataIndex: "count", key: "count", width: 70 },
+  {
+    title: "最近出现",
+    dataIndex: "lastSeen",
+    key: "lastSeen",
+    width: 100,
+    render: formatTimestamp,
+  },
+];
+
+/**
+ * 诊断面板：实时展示请求遥测、调度队列、熔断状态和接口结构漂移，
+ * 可导出为 JSON 附在问题反馈中
+ */
+const DiagnosticsPanel: React.FC = () => {
+  const [telemetry, setTelemetry] = useState<TelemetrySnapshot>(() =>
+    requestTelemetry.getSnapshot(),
+  );
+  const [queue, setQueue] = useState<SchedulerSnapshot>(() =>
+    requestScheduler.getSnapshot(),
+  );
+  const [breaker, setBreaker] = useState<CircuitBreakerSnapshot>(() =>
+    circuitBreaker.getSnapshot(),
+  );
+  const [drift, setDrift] = useState<DriftLogEntry[]>(() =>
+    schemaDriftLog.getEntries(),
+  );
+  const [storage, setStorage] = useState<StorageReport | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  const loadStorage = () => {
+    cacheManager
+      .getStorageReport()
+      .then((report) => {
+        setStorage(report);
+        setStorageError(null);
+      })
+      .catch((error) => {
+        logger.warn("读取存储占用失败:", error);
+        setStorageError(error instanceof Error ? error.message : String(error));
+      });
+  };
+
+  useEffect(loadStorage, []);
+
+  useEffect(() => {
+    const unsubscribers = [
+      requestTelemetry.subscribe(setTelemetry),
+      requestScheduler.subscribe(setQueue),
+      circuitBreaker.subscribe(setBreaker),
+      schemaDriftLog.subscribe(setDrift),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
+  const handleExport = async () => {
+    const report = {
+      exportedAt: new Date().toISOString(),
+      version: metadata.version,
+      userAgent: navigator.userAgent,
+      transport: getTransport().name,
+      telemetry: requestTelemetry.getSnapshot(),
+      scheduler: requestScheduler.getSnapshot(),
+      circuitBreaker: circuitBreaker.getSnapshot(),
+      schemaDrift: schemaDriftLog.getEntries(),
+      // 存储读取失败时仍导出其余诊断信息
+      storage: await cacheManager
+        .getStorageReport()
+        .catch((error) => ({ error: String(error) })),
+    };
+
+    const blob = new Blob([JSON.stringify(report, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `bilibili-diagnostics-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleReset = () => {
+    requestTelemetry.reset();
+    schemaDriftLog.clear();
+  };
+
+  const { totals } = telemetry;
+  const stateTag = CIRCUIT_STATE_TAGS[breaker.state];
+
+  return (
+    <div style={{ padding: "16px 0", height: "100%", overflow: "auto" }}>
+      <Space style={{ marginBottom: 16 }}>
+        <Button
+          type="primary"
+          icon={<DownloadOutlined />}
+          onClick={handleExport}
+        >
+          导出 JSON
+        </Button>
+        <Button icon={<ClearOutlined />} onClick={handleReset}>
+          重置统计
+        </Button>
+        <Text type="secondary">
+          统计开始于 {formatTimestamp(telemetry.startedAt)}
+        </Text>
+      </Space>
+
+      <Card size="small" style={{ marginBottom: 16 }}>
+        <Row gutter={16}>
+          <Col span={4}>
+            <Statistic title="请求数" value={totals.attempts} />
+          </Col>
+          <Col span={4}>
+            <Statistic
+              title="成功率"
+              value={formatRatio(
+                totals.attempts ? totals.successes / totals.attempts : null,
+              )}
+            />
+          </Col>
+          <Col span={4}>
+            <Statistic title="重试" value={totals.retries} />
+          </Col>
+          <Col span={4}>
+            <Statistic title="风控命中" value={totals.riskControlHits} />
+          </Col>
+          <Col span={4}>
+            <Statistic
+              title="缓存命中率"
+              value={formatRatio(totals.cacheHitRatio)}
+            />
+          </Col>
+          <Col span={4}>
+            <Statistic title="请求复用" value={totals.dedupHits} />
+          </Col>
+        </Row>
+      </Card>
+
+      <Card size="small" title="调度与限流" style={{ marginBottom: 16 }}>
+        <Space size="large" wrap>
+          <span>
+            熔断器 <Tag color={stateTag.color}>{stateTag.text}</Tag>
+            {breaker.state === "half_open" &&
+              `吞吐 ${Math.round(breaker.throughput * 100)}%`}
+          </span>
+          <span>进行中 {queue.running.length}</span>
+          <span>
+            排队 交互 {queue.pendingByPriority.interactive} / 普通{" "}
+            {queue.pendingByPriority.normal} / 后台{" "}
+            {queue.pendingByPriority.background}
+          </span>
+          <span>可用令牌 {queue.tokens}</span>
+          <span>连续熔断 {breaker.trips} 次</span>
+        </Space>
+      </Card>
+
+      <Card
+        size="small"
+        title="本地存储"
+        style={{ marginBottom: 16 }}
+        extra={
+          <Button
+            size="small"
+            type="text"
+            icon={<ReloadOutlined />}
+            onClick={loadStorage}
+          />
+        }
+      >
+        {storageError && (
+          <Text type="danger">读取存储占用失败: {storageError}</Text>
+        )}
+        {storage && !storageError && (
+          <Row gutter={16}>
+            <Col span={8}>{renderUsage("IndexedDB", storage.indexedDB)}</Col>
+            <Col span={8}>
+              {renderUsage("localStorage", storage.localStorage)}
+            </Col>
+            <Col span={8}>
+              {storage.estimate ? (
+                renderUsage("整个站点", {
+                  bytes: storage.estimate.usage,
+                  maxBytes: storage.estimate.quota,
+                })
+              ) : (
+                <Text type="secondary">浏览器不支持查询存储配额</Text>
+              )}
+            </Col>
+          </Row>
+        )}
+      </Card>
+
+      <Card size="small" title="接口统计" style={{ marginBottom: 16 }}>
+        <Table
+          columns={endpointColumns}
+          dataSource={telemetry.endpoints}
+          rowKey="endpoint"
+          size="small"
+          pagination={false}
+          locale={{ emptyText: "暂无请求" }}
+        />
+      </Card>
+
+      <Card size="small" title="接口结构变化">
+        <Table
+          columns={driftColumns}
+          dataSource={drift}
+          rowKey={(record) =>
+            `${record.endpoint} ${record.path} ${record.received}`
+          }
+          size="small"
+          pagination={false}
+          locale={{ emptyText: "未发现异常" }}
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
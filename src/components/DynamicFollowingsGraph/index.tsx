@@ -1,4 +1,10 @@
-import React, { useEffect, useRef, useState, useCallback } from "react";
+import React, {
+  useEffect,
+  useRef,
+  useState,
+  useCallback,
+  useMemo,
+} from "react";
 import {
   Button,
   Space,
@@ -11,6 +17,8 @@ import {
   ColorPicker,
   Input,
   Collapse,
+  Switch,
+  Tooltip,
 } from "antd";
 import type { CollapseProps } from "antd";
 import {
@@ -20,17 +28,53 @@ import {
   DisconnectOutlined,
   SearchOutlined,
   NodeExpandOutlined,
+  VideoCameraOutlined,
 } from "@ant-design/icons";
 import ForceGraph from "force-graph";
 import { useAppContext } from "../../contexts/AppContext";
 import {
   getCurrentUserMid,
   getCurrentUserMidFromAPI,
-  getFollowingsList,
   getCommonFollowings,
-  getFansList,
+  iterateFollowings,
+  iterateFans,
+  IterateRelationOptions,
+  RelationPage,
+  SearchedUser,
 } from "../../services/biliApi";
+import { FansItem } from "../../types/bilibili";
+import { CoCreationVideo, findCoCreations } from "../../services/coCreation";
+import { NetworkSnapshot, graphStore } from "../../services/graphStore";
+import {
+  NotLoggedInError,
+  RequestCancelledError,
+  PrivacyRestrictedError,
+  RiskControlError,
+  UserNotFoundError,
+  describeApiError,
+} from "../../services/errors";
+import { SchedulerSnapshot, requestScheduler } from "../../services/scheduler";
+import {
+  CircuitBreakerSnapshot,
+  circuitBreaker,
+} from "../../services/circuitBreaker";
+import { accountScope } from "../../utils/accountScope";
 import logger from "../../utils/logger";
+import { escapeHtml } from "../../utils/formatters";
+import {
+  GroupLegend,
+  getGroupColor,
+  useFollowingGroups,
+  useGroupColors,
+} from "../shared/FollowingGroups";
+import {
+  getProfileNodeVal,
+  getUserNodeLabel,
+  useLiveNodeLabel,
+  useUserProfiles,
+} from "../shared/UserProfiles";
+import { useHoveredUserRelations } from "../shared/UserRelations";
+import UserSearchSeed from "../shared/UserSearchSeed";
 
 // ================== 类型定义 ==================
 
@@ -69,34 +113,64 @@ interface GraphNode {
   id: number;
   name: string;
   face: string;
+  /** 所在关注分组（仅自己的关注） */
+  tags?: number[];
   neighbors?: GraphNode[];
   links?: GraphLink[];
   x?: number;
   y?: number;
 }
 
-/** 连线类型 */
-type LinkType = "common" | "deep_following" | "deep_follower";
+/** 连线类型（co_creation: 联合投稿的合作关系，无方向） */
+type LinkType = "common" | "deep_following" | "deep_follower" | "co_creation";
 
 /** 图边 */
 interface GraphLink {
   source: number | GraphNode;
   target: number | GraphNode;
   linkType: LinkType;
+  /** 合作视频（仅 co_creation） */
+  videos?: CoCreationVideo[];
 }
 
+/** 合作关系扫描进度 */
+interface CoCreationScanState {
+  running: boolean;
+  current: number;
+  total: number;
+  /** 本次扫描新增的合作连线数 */
+  found: number;
+}
+
+/**
+ * 连线去重键：合作关系无方向，且可以与关注关系连线并存
+ */
+const getLinkKey = (
+  sourceId: number,
+  targetId: number,
+  linkType: LinkType,
+): string =>
+  linkType === "co_creation"
+    ? `co_creation:${Math.min(sourceId, targetId)}-${Math.max(sourceId, targetId)}`
+    : `${sourceId}-${targetId}`;
+
 /** 加载状态 */
 interface LoadingState {
   status:
-    | "idle"
-    | "loading_followings"
-    | "loading_relations"
-    | "done"
-    | "error";
+    "idle" | "loading_followings" | "loading_relations" | "done" | "error";
   current: number;
   total: number;
   currentUser?: string;
   error?: string;
+  /** 风控熔断状态（未熔断时为空） */
+  throttle?: CircuitBreakerSnapshot;
+}
+
+/** 加载失败的用户 */
+interface FailedUser {
+  uid: number;
+  uname: string;
+  reason: string;
 }
 
 // ================== 组件 ==================
@@ -118,16 +192,26 @@ const DynamicFollowingsGraph: React.FC = () => {
     current: 0,
     total: 0,
   });
+  const [failedUsers, setFailedUsers] = useState<FailedUser[]>([]);
   const [isPaused, setIsPaused] = useState(false);
   const isPausedRef = useRef(false);
-  // 修复: 添加组件挂载状态追踪
-  const isMountedRef = useRef(true);
+  // 中止控制器：组件卸载或重新加载时取消排队中和进行中的请求
+  const loadAbortRef = useRef<AbortController | null>(null);
+  const exploreAbortRef = useRef<AbortController | null>(null);
 
   // 力引擎参数
   const [alphaDecay, setAlphaDecay] = useState(0.05);
   const [velocityDecay, setVelocityDecay] = useState(0.6);
   const [particleSpeed, setParticleSpeed] = useState(0.01);
   const [nodeColor, setNodeColor] = useState("#4ecdc4");
+  // 按关注分组着色，开启时才加载分组
+  const [colorByGroup, setColorByGroup] = useState(false);
+  const { groups } = useFollowingGroups(colorByGroup);
+  const groupColors = useGroupColors(groups);
+  // 按粉丝数调整节点大小，开启时才补全用户资料
+  const [sizeByFollowers, setSizeByFollowers] = useState(false);
+  // 节点大小权重，供初始化时注册的高亮绘制读取最新设置
+  const nodeValRef = useRef<(node: GraphNode) => number>(() => 1);
   const [nodeRelSize, setNodeRelSize] = useState(4);
   const [linkColor, setLinkColor] = useState("#ffffff40");
   const [linkCurvature, setLinkCurvature] = useState(0);
@@ -137,6 +221,33 @@ const DynamicFollowingsGraph: React.FC = () => {
 
   // 统计信息
   const [stats, setStats] = useState({ nodeCount: 0, linkCount: 0 });
+  const [queueSnapshot, setQueueSnapshot] = useState<SchedulerSnapshot>(() =>
+    requestScheduler.getSnapshot(),
+  );
+
+  // 图中节点随 nodeCount 变化（节点只增不减，除非重新加载）
+  const nodeIds = useMemo(
+    () =>
+      ((graphRef.current?.graphData().nodes ?? []) as GraphNode[]).map(
+        (node) => node.id,
+      ),
+    [stats.nodeCount],
+  );
+  const profiles = useUserProfiles(nodeIds, sizeByFollowers);
+  // 与我的关系只在悬停标签中展示，只查询悬停过的节点
+  const [relations, handleRelationHover] = useHoveredUserRelations();
+  // 悬停期间查询到的关系直接更新到当前标签
+  const nodeLabel = useLiveNodeLabel(
+    useCallback(
+      (node: GraphNode) =>
+        getUserNodeLabel(
+          node.name,
+          profiles.get(node.id),
+          relations.get(node.id),
+        ),
+      [profiles, relations],
+    ),
+  );
 
   // 搜索状态
   const [searchValue, setSearchValue] = useState("");
@@ -145,6 +256,17 @@ const DynamicFollowingsGraph: React.FC = () => {
   // 深度模式状态
   const [deepMode, setDeepMode] = useState(false);
   const [deepLoading, setDeepLoading] = useState(false);
+
+  // 合作关系扫描状态
+  const [coCreationScan, setCoCreationScan] = useState<CoCreationScanState>({
+    running: false,
+    current: 0,
+    total: 0,
+    found: 0,
+  });
+  const coCreationAbortRef = useRef<AbortController | null>(null);
+  // 已扫描过投稿的 UP 主，再次扫描时跳过
+  const scannedCoCreationRef = useRef<Set<number>>(new Set());
   const exploredNodesRef = useRef<Set<number>>(new Set());
   const deepModeRef = useRef(false);
 
@@ -163,11 +285,36 @@ const DynamicFollowingsGraph: React.FC = () => {
     isPausedRef.current = isPaused;
   }, [isPaused]);
 
-  // 修复: 组件卸载时设置 isMountedRef 为 false
+  // 订阅全局请求队列
+  useEffect(() => requestScheduler.subscribe(setQueueSnapshot), []);
+
+  // 风控熔断状态同步到加载状态
+  useEffect(
+    () =>
+      circuitBreaker.subscribe((snapshot) => {
+        setLoadingState((prev) => ({
+          ...prev,
+          throttle: snapshot.state === "closed" ? undefined : snapshot,
+        }));
+      }),
+    [],
+  );
+
+  // 熔断倒计时
+  const [now, setNow] = useState(Date.now());
+  const throttleResumeAt = loadingState.throttle?.resumeAt;
+  useEffect(() => {
+    if (!throttleResumeAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [throttleResumeAt]);
+
+  // 组件卸载时中止所有进行中的请求
   useEffect(() => {
-    isMountedRef.current = true;
     return () => {
-      isMountedRef.current = false;
+      loadAbortRef.current?.abort();
+      exploreAbortRef.current?.abort();
+      coCreationAbortRef.current?.abort();
     };
   }, []);
 
@@ -200,6 +347,7 @@ const DynamicFollowingsGraph: React.FC = () => {
         }
 
         hoverNodeRef.current = node;
+        handleRelationHover(node?.id ?? null);
         if (containerRef.current) {
           containerRef.current.style.cursor = node ? "pointer" : "default";
         }
@@ -223,6 +371,14 @@ const DynamicFollowingsGraph: React.FC = () => {
         }
       })
       .autoPauseRedraw(false)
+      .linkLabel((link: any) =>
+        // 合作连线悬停显示合作视频
+        link.linkType === "co_creation" && link.videos
+          ? link.videos
+              .map((video: CoCreationVideo) => escapeHtml(video.title))
+              .join("<br/>")
+          : "",
+      )
       .linkWidth((link: any) => (highlightLinksRef.current.has(link) ? 3 : 1))
       .linkDirectionalParticles(4)
       .linkDirectionalParticleSpeed(0.01)
@@ -239,7 +395,14 @@ const DynamicFollowingsGraph: React.FC = () => {
         // 修复: 使用 typeof 检查，避免将坐标 0 误判为无效
         if (typeof node.x !== "number" || typeof node.y !== "number") return;
         ctx.beginPath();
-        ctx.arc(node.x, node.y, NODE_R * 0.56, 0, 2 * Math.PI, false);
+        ctx.arc(
+          node.x,
+          node.y,
+          NODE_R * 0.56 * Math.sqrt(nodeValRef.current(node)),
+          0,
+          2 * Math.PI,
+          false,
+        );
         // 搜索高亮使用绿色，hover 高亮使用紫色，普通高亮使用黄色
         if (searchedNodesRef.current.has(node)) {
           ctx.fillStyle = "#00ff00";
@@ -272,11 +435,14 @@ const DynamicFollowingsGraph: React.FC = () => {
     };
   }, []);
 
-  // 更新节点颜色
+  // 更新节点颜色（按分组着色时使用分组颜色，未分组使用默认颜色）
   useEffect(() => {
     if (!graphRef.current) return;
-    graphRef.current.nodeColor(() => nodeColor);
-  }, [nodeColor]);
+    graphRef.current.nodeColor(
+      (node: any) =>
+        (colorByGroup && getGroupColor(node.tags, groupColors)) || nodeColor,
+    );
+  }, [nodeColor, colorByGroup, groupColors]);
 
   // 更新节点大小
   useEffect(() => {
@@ -284,6 +450,16 @@ const DynamicFollowingsGraph: React.FC = () => {
     graphRef.current.nodeRelSize(nodeRelSize);
   }, [nodeRelSize]);
 
+  // 更新节点资料（按粉丝数调整大小，悬停显示资料和关系）
+  useEffect(() => {
+    if (!graphRef.current) return;
+    nodeValRef.current = (node) =>
+      sizeByFollowers ? getProfileNodeVal(profiles.get(node.id)) : 1;
+    graphRef.current
+      .nodeVal((node: any) => nodeValRef.current(node))
+      .nodeLabel((node: any) => nodeLabel(node));
+  }, [sizeByFollowers, profiles, nodeLabel]);
+
   // 更新连线颜色（根据类型区分）
   useEffect(() => {
     if (!graphRef.current) return;
@@ -293,6 +469,8 @@ const DynamicFollowingsGraph: React.FC = () => {
           return "#ff6b6b"; // 红色: 深度关注
         case "deep_follower":
           return "#4dabf7"; // 蓝色: 深度粉丝
+        case "co_creation":
+          return "#ffd43b"; // 黄色: 合作
         case "common":
         default:
           return linkColor; // 默认颜色: 共同关注
@@ -359,7 +537,7 @@ const DynamicFollowingsGraph: React.FC = () => {
     (links as GraphLink[]).forEach((l) => {
       const sourceId = typeof l.source === "object" ? l.source.id : l.source;
       const targetId = typeof l.target === "object" ? l.target.id : l.target;
-      existingLinkSet.add(`${sourceId}-${targetId}`);
+      existingLinkSet.add(getLinkKey(sourceId, targetId, l.linkType));
     });
 
     // 过滤掉已存在的链接
@@ -368,7 +546,11 @@ const DynamicFollowingsGraph: React.FC = () => {
         typeof link.source === "number" ? link.source : link.source.id;
       const targetId =
         typeof link.target === "number" ? link.target : link.target.id;
-      return !existingLinkSet.has(`${sourceId}-${targetId}`);
+      const key = getLinkKey(sourceId, targetId, link.linkType);
+      // 同一批次内的重复连线也只保留一条
+      if (existingLinkSet.has(key)) return false;
+      existingLinkSet.add(key);
+      return true;
     });
 
     if (uniqueNewLinks.length === 0) return;
@@ -426,6 +608,10 @@ const DynamicFollowingsGraph: React.FC = () => {
       setDeepLoading(true);
       exploredNodesRef.current.add(uid);
 
+      const controller = new AbortController();
+      exploreAbortRef.current = controller;
+      const { signal } = controller;
+
       const users = appStateRef.current.users;
       const user = users.get(uid);
       const userName = user?.uname || `UID:${uid}`;
@@ -443,16 +629,58 @@ const DynamicFollowingsGraph: React.FC = () => {
 
         const newNodes: GraphNode[] = [];
         const newLinks: GraphLink[] = [];
+        // 不可获取的部分及原因（隐私、已注销等）
+        const unavailable: string[] = [];
+
+        /** 区分单个列表不可用与需要终止探索的错误 */
+        const handleListError = (listName: string, error: unknown) => {
+          if (
+            error instanceof RequestCancelledError ||
+            error instanceof RiskControlError ||
+            error instanceof NotLoggedInError
+          ) {
+            throw error;
+          }
+          if (
+            error instanceof PrivacyRestrictedError ||
+            error instanceof UserNotFoundError
+          ) {
+            logger.warn(`${userName} 的${listName}不可用:`, error.message);
+          } else {
+            logger.error(`获取 ${userName} 的${listName}失败:`, error);
+          }
+          unavailable.push(`${listName}: ${describeApiError(error)}`);
+        };
+
+        const pageOptions: IterateRelationOptions = {
+          priority: "interactive",
+          signal,
+          isSelf: uid === appStateRef.current.myUid,
+        };
+
+        /** 遍历可获取的全部分页，被服务器截断时记录 */
+        const collectPages = async (
+          listName: string,
+          pages: AsyncGenerator<RelationPage, void, undefined>,
+        ): Promise<FansItem[]> => {
+          const items: FansItem[] = [];
+          for await (const page of pages) {
+            items.push(...page.list);
+            if (page.truncated) {
+              unavailable.push(
+                `${listName}仅可见 ${page.fetched}/${page.total}`,
+              );
+            }
+          }
+          return items;
+        };
 
         // 1. 获取该用户的关注列表 (deepFollowing)
         try {
-          const followingsResponse = await getFollowingsList({
-            vmid: uid,
-            ps: 50,
-            pn: 1,
-          });
-
-          const followingList = followingsResponse.data.list || [];
+          const followingList = await collectPages(
+            "关注列表",
+            iterateFollowings(uid, pageOptions),
+          );
 
           for (const item of followingList) {
             // 如果节点不存在，添加新节点
@@ -490,21 +718,15 @@ const DynamicFollowingsGraph: React.FC = () => {
             user.deepFollowing = followingList.map((item) => item.mid);
           }
         } catch (error) {
-          logger.error(`获取 ${userName} 的关注列表失败:`, error);
+          handleListError("关注列表", error);
         }
 
-        // 等待一下避免请求过快
-        await new Promise((resolve) => setTimeout(resolve, 300));
-
         // 2. 获取该用户的粉丝列表 (deepFollower)
         try {
-          const fansResponse = await getFansList({
-            vmid: uid,
-            ps: 50,
-            pn: 1,
-          });
-
-          const fansList = fansResponse.data.list || [];
+          const fansList = await collectPages(
+            "粉丝列表",
+            iterateFans(uid, pageOptions),
+          );
 
           for (const item of fansList) {
             // 如果节点不存在，添加新节点
@@ -542,7 +764,7 @@ const DynamicFollowingsGraph: React.FC = () => {
             user.deepFollower = fansList.map((item) => item.mid);
           }
         } catch (error) {
-          logger.error(`获取 ${userName} 的粉丝列表失败:`, error);
+          handleListError("粉丝列表", error);
         }
 
         // 添加新节点和连线到图形
@@ -553,12 +775,23 @@ const DynamicFollowingsGraph: React.FC = () => {
           addLinksToGraph(newLinks);
         }
 
-        message.success(
-          `探索完成: 新增 ${newNodes.length} 个节点, ${newLinks.length} 条连线`,
-        );
+        if (unavailable.length > 0) {
+          message.warning(
+            `探索完成: 新增 ${newNodes.length} 个节点, ${newLinks.length} 条连线（${unavailable.join("；")}）`,
+          );
+        } else {
+          message.success(
+            `探索完成: 新增 ${newNodes.length} 个节点, ${newLinks.length} 条连线`,
+          );
+        }
       } catch (error) {
+        // 已取消（组件卸载），移除已探索标记后静默退出
+        if (error instanceof RequestCancelledError) {
+          exploredNodesRef.current.delete(uid);
+          return;
+        }
         logger.error("深度探索失败:", error);
-        message.error("深度探索失败");
+        message.error(`深度探索失败: ${describeApiError(error)}`);
         // 移除已探索标记，允许重试
         exploredNodesRef.current.delete(uid);
       } finally {
@@ -568,15 +801,147 @@ const DynamicFollowingsGraph: React.FC = () => {
     [message, addNodesToGraph, addLinksToGraph, deepLoading],
   );
 
+  /**
+   * 扫描图中 UP 主最近投稿里的联合投稿，为图中已有的合作者添加合作连线
+   * 扫描中再次调用则停止
+   */
+  const handleScanCoCreations = useCallback(async () => {
+    if (coCreationAbortRef.current) {
+      coCreationAbortRef.current.abort();
+      return;
+    }
+    if (!graphRef.current) return;
+
+    const nodes = graphRef.current.graphData().nodes as GraphNode[];
+    const nodeIds = new Set(nodes.map((node) => node.id));
+    const targets = nodes.filter(
+      (node) =>
+        node.id !== appStateRef.current.myUid &&
+        !scannedCoCreationRef.current.has(node.id),
+    );
+    if (targets.length === 0) {
+      message.info("图中的 UP 主都已扫描过");
+      return;
+    }
+
+    const controller = new AbortController();
+    coCreationAbortRef.current = controller;
+    let found = 0;
+    let failed = 0;
+    setCoCreationScan({
+      running: true,
+      current: 0,
+      total: targets.length,
+      found,
+    });
+
+    try {
+      for (let i = 0; i < targets.length; i++) {
+        const node = targets[i];
+        try {
+          const coCreations = await findCoCreations(node.id, {
+            priority: "background",
+            signal: controller.signal,
+          });
+          scannedCoCreationRef.current.add(node.id);
+
+          const newLinks: GraphLink[] = coCreations
+            .filter(({ partner }) => nodeIds.has(partner.mid))
+            .map(({ partner, videos }) => ({
+              source: node.id,
+              target: partner.mid,
+              linkType: "co_creation",
+              videos,
+            }));
+          if (newLinks.length > 0) {
+            addLinksToGraph(newLinks);
+            found += newLinks.length;
+          }
+        } catch (error) {
+          if (
+            error instanceof RequestCancelledError ||
+            error instanceof NotLoggedInError
+          ) {
+            throw error;
+          }
+          failed++;
+          logger.warn(
+            `扫描 ${node.name} 的投稿失败: ${describeApiError(error)}`,
+          );
+        }
+        setCoCreationScan({
+          running: true,
+          current: i + 1,
+          total: targets.length,
+          found,
+        });
+      }
+
+      message.success(
+        `合作关系扫描完成: 新增 ${found} 条合作连线${failed > 0 ? `，${failed} 人扫描失败` : ""}`,
+      );
+    } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        message.info(`合作关系扫描已停止，已新增 ${found} 条合作连线`);
+      } else {
+        message.error(`合作关系扫描失败: ${describeApiError(error)}`);
+      }
+    } finally {
+      coCreationAbortRef.current = null;
+      setCoCreationScan((prev) => ({ ...prev, running: false }));
+    }
+  }, [message, addLinksToGraph]);
+
+  /** 从用户搜索加入节点，可选立即深度探索 */
+  const handleAddSeed = useCallback(
+    (seed: SearchedUser, explore: boolean) => {
+      if (!graphRef.current) return;
+
+      const users = appStateRef.current.users;
+      if (!users.has(seed.mid)) {
+        users.set(seed.mid, {
+          uid: seed.mid,
+          uname: seed.uname,
+          face: seed.face,
+          following: [],
+          deepFollowing: [],
+          deepFollower: [],
+        });
+      }
+
+      const { nodes } = graphRef.current.graphData();
+      const existing = (nodes as GraphNode[]).find(
+        (node) => node.id === seed.mid,
+      );
+      const node = existing ?? {
+        id: seed.mid,
+        name: seed.uname,
+        face: seed.face,
+      };
+      if (existing) {
+        message.info(`${seed.uname} 已在图中`);
+      } else {
+        addNodesToGraph([node]);
+        message.success(`已加入 ${seed.uname}`);
+      }
+
+      // 高亮加入的节点
+      searchedNodesRef.current = new Set([node]);
+      graphRef.current.nodeColor(graphRef.current.nodeColor());
+
+      if (explore) handleDeepExplore(seed.mid);
+    },
+    [message, addNodesToGraph, handleDeepExplore],
+  );
+
   /** 等待恢复（暂停时使用）
-   * 修复: 添加组件卸载检查，避免内存泄漏
+   * 加载被中止时以 RequestCancelledError 拒绝，避免内存泄漏
    */
-  const waitForResume = (): Promise<void> => {
+  const waitForResume = (signal: AbortSignal): Promise<void> => {
     return new Promise((resolve, reject) => {
       const check = () => {
-        // 组件已卸载，直接 reject
-        if (!isMountedRef.current) {
-          reject(new Error("组件已卸载"));
+        if (signal.aborted) {
+          reject(new RequestCancelledError());
           return;
         }
         if (!isPausedRef.current) {
@@ -589,154 +954,246 @@ const DynamicFollowingsGraph: React.FC = () => {
     });
   };
 
-  /** 加载所有数据
-   * 修复: 在异步操作中检查组件是否已卸载
-   */
-  const loadAllData = useCallback(async () => {
-    try {
-      // Step 1: 获取我的 ID
-      let myMid = getCurrentUserMid();
-      if (!myMid) {
-        try {
-          myMid = await getCurrentUserMidFromAPI();
-        } catch {
-          message.error("无法获取用户 ID，请确保已登录");
-          setLoadingState({
-            status: "error",
-            current: 0,
-            total: 0,
-            error: "未登录",
-          });
-          return;
-        }
-      }
-
-      // 检查组件是否已卸载
-      if (!isMountedRef.current) return;
+  /** 更新加载进度，保留熔断状态 */
+  const updateLoadingState = useCallback(
+    (next: Omit<LoadingState, "throttle">) => {
+      setLoadingState((prev) => ({ ...next, throttle: prev.throttle }));
+    },
+    [],
+  );
 
-      // 重置图形数据
-      if (graphRef.current) {
-        graphRef.current.graphData({ nodes: [], links: [] });
-      }
+  /**
+   * 重置图形并从本地关系网络恢复：我的关注及其之间的关系、深度探索过的用户和合作关系
+   * 抓取仍新鲜的深度探索和投稿扫描记为已完成，不再重复请求
+   * @returns 恢复的节点数
+   */
+  const restoreNetwork = useCallback(
+    (myMid: number, snapshot: NetworkSnapshot): number => {
+      graphRef.current?.graphData({ nodes: [], links: [] });
       setStats({ nodeCount: 0, linkCount: 0 });
+      setFailedUsers([]);
 
-      // 初始化 users Map
       const users = new Map<number, UserData>();
       appStateRef.current = { myUid: myMid, users };
-
-      // 创建「我」的 UserData
       users.set(myMid, {
         uid: myMid,
         uname: "我",
         face: "",
-        following: [],
+        following: [...snapshot.followings],
         deepFollowing: [],
         deepFollower: [],
       });
 
-      // Step 2: 获取我的关注列表
-      setLoadingState({ status: "loading_followings", current: 0, total: 0 });
-      message.info("正在加载关注列表...");
-
-      const myFollowingUids: number[] = [];
-      let page = 1;
-      const pageSize = 50;
+      const nodes: GraphNode[] = [];
+      const nodeIds = new Set<number>();
+      /** 加入节点，本地缺少用户资料时以 UID 显示 */
+      const addNode = (mid: number) => {
+        if (nodeIds.has(mid)) return;
+        nodeIds.add(mid);
+        const stored = snapshot.users.get(mid);
+        const uname = stored?.name ?? `UID:${mid}`;
+        const face = stored?.face ?? "";
+        if (!users.has(mid)) {
+          users.set(mid, {
+            uid: mid,
+            uname,
+            face,
+            following: [],
+            deepFollowing: [],
+            deepFollower: [],
+          });
+        }
+        nodes.push({ id: mid, name: uname, face });
+      };
 
-      const firstResponse = await getFollowingsList({
-        vmid: myMid,
-        ps: pageSize,
-        pn: 1,
+      const links: GraphLink[] = [];
+      snapshot.followings.forEach(addNode);
+      snapshot.commonFollowings.forEach((targets, uid) => {
+        users.get(uid)!.following = targets;
+        targets.forEach((targetId) =>
+          links.push({ source: targetId, target: uid, linkType: "common" }),
+        );
       });
-      const total = firstResponse.data.total;
-      const totalPages = Math.ceil(total / pageSize);
-
-      // 添加第一页的用户
-      const firstPageNodes: GraphNode[] = [];
-      firstResponse.data.list.forEach((item) => {
-        myFollowingUids.push(item.mid);
-        users.set(item.mid, {
-          uid: item.mid,
-          uname: item.uname,
-          face: item.face,
-          following: [],
-          deepFollowing: [],
-          deepFollower: [],
-        });
-        firstPageNodes.push({
-          id: item.mid,
-          name: item.uname,
-          face: item.face,
-        });
+
+      exploredNodesRef.current = new Set();
+      snapshot.explored.forEach((relations, uid) => {
+        addNode(uid);
+        relations.followings.forEach(addNode);
+        relations.followers.forEach(addNode);
+        const user = users.get(uid);
+        if (user) {
+          user.deepFollowing = relations.followings;
+          user.deepFollower = relations.followers;
+        }
+        relations.followings.forEach((targetId) =>
+          links.push({
+            source: uid,
+            target: targetId,
+            linkType: "deep_following",
+          }),
+        );
+        relations.followers.forEach((sourceId) =>
+          links.push({
+            source: sourceId,
+            target: uid,
+            linkType: "deep_follower",
+          }),
+        );
+        if (relations.fresh) exploredNodesRef.current.add(uid);
       });
 
-      // 更新「我」的 following
-      users.get(myMid)!.following = [...myFollowingUids];
+      // 与扫描时一致，只连接图中已有的合作者
+      snapshot.coCreations
+        .filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+        .forEach((edge) =>
+          links.push({
+            source: edge.source,
+            target: edge.target,
+            linkType: "co_creation",
+            videos: edge.videos,
+          }),
+        );
+      scannedCoCreationRef.current = new Set(snapshot.freshCoCreation);
 
-      // 直接添加节点到图形
-      addNodesToGraph(firstPageNodes);
+      addNodesToGraph(nodes);
+      addLinksToGraph(links);
+      return nodes.length;
+    },
+    [addNodesToGraph, addLinksToGraph],
+  );
 
-      setLoadingState({
-        status: "loading_followings",
-        current: myFollowingUids.length,
-        total,
-      });
+  // 打开时直接展示本地关系网络，开始加载后只补全缺失或过期的部分
+  useEffect(() => {
+    const myMid = accountScope.getActiveMid();
+    if (!myMid) return;
+    let cancelled = false;
+    graphStore.getNetworkSnapshot(myMid).then((snapshot) => {
+      // 已开始加载时由加载流程负责恢复
+      if (cancelled || loadAbortRef.current) return;
+      restoreNetwork(myMid, snapshot);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreNetwork]);
 
-      // 加载剩余页面
-      for (page = 2; page <= totalPages; page++) {
-        // 检查组件是否已卸载
-        if (!isMountedRef.current) return;
+  /** 加载所有数据
+   * 重新加载或组件卸载时通过 AbortSignal 取消上一次加载
+   */
+  const loadAllData = useCallback(async () => {
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    const { signal } = controller;
 
-        if (isPausedRef.current) {
-          try {
-            await waitForResume();
-          } catch {
-            return; // 组件已卸载
-          }
+    try {
+      // Step 1: 获取我的 ID
+      let myMid = getCurrentUserMid();
+      if (!myMid) {
+        try {
+          myMid = await getCurrentUserMidFromAPI({ signal });
+        } catch (error) {
+          if (error instanceof RequestCancelledError) return;
+          const reason =
+            error instanceof NotLoggedInError
+              ? "未登录"
+              : describeApiError(error);
+          message.error(`无法获取用户 ID: ${reason}`);
+          updateLoadingState({
+            status: "error",
+            current: 0,
+            total: 0,
+            error: reason,
+          });
+          return;
         }
+      }
 
-        const response = await getFollowingsList({
-          vmid: myMid,
-          ps: pageSize,
-          pn: page,
-        });
+      // 检查加载是否已取消
+      if (signal.aborted) return;
 
+      // 重置图形数据，先展示本地关系网络
+      const snapshot = await graphStore.getNetworkSnapshot(myMid);
+      if (signal.aborted) return;
+      const restored = restoreNetwork(myMid, snapshot);
+      if (restored > 0) {
+        message.info(`已从本地关系网络载入 ${restored} 个节点`);
+      }
+      const users = appStateRef.current.users;
+      const restoredFollowings = new Set(snapshot.followings);
+
+      // Step 2: 获取我的关注列表
+      updateLoadingState({
+        status: "loading_followings",
+        current: 0,
+        total: 0,
+      });
+      message.info("正在加载关注列表...");
+
+      const myFollowingUids: number[] = [];
+
+      for await (const page of iterateFollowings(myMid, {
+        isSelf: true,
+        signal,
+      })) {
         const pageNodes: GraphNode[] = [];
-        response.data.list.forEach((item) => {
+        // 从本地恢复的节点已在图中，只更新资料和分组
+        const existingNodes = new Map(
+          ((graphRef.current?.graphData().nodes ?? []) as GraphNode[]).map(
+            (node) => [node.id, node],
+          ),
+        );
+        page.list.forEach((item) => {
           myFollowingUids.push(item.mid);
           users.set(item.mid, {
-            uid: item.mid,
-            uname: item.uname,
-            face: item.face,
             following: [],
             deepFollowing: [],
             deepFollower: [],
+            ...users.get(item.mid),
+            uid: item.mid,
+            uname: item.uname,
+            face: item.face,
           });
+          const existing = existingNodes.get(item.mid);
+          if (existing) {
+            existing.name = item.uname;
+            existing.face = item.face;
+            existing.tags = item.tag ?? undefined;
+            return;
+          }
           pageNodes.push({
             id: item.mid,
             name: item.uname,
             face: item.face,
+            tags: item.tag ?? undefined,
           });
         });
 
         // 更新「我」的 following
         users.get(myMid)!.following = [...myFollowingUids];
-
         // 直接添加节点到图形
         addNodesToGraph(pageNodes);
 
-        setLoadingState({
+        updateLoadingState({
           status: "loading_followings",
           current: myFollowingUids.length,
-          total,
+          total: page.total,
         });
 
-        await new Promise((resolve) => setTimeout(resolve, 200));
+        if (page.truncated) {
+          message.warning(
+            `关注列表未能完整获取 (${page.fetched}/${page.total})`,
+          );
+        }
+
+        // 获取下一页前检查暂停
+        if (isPausedRef.current) await waitForResume(signal);
       }
 
       message.success(`成功加载 ${myFollowingUids.length} 个关注`);
 
       // Step 3: 获取每个关注对象的共同关注
-      setLoadingState({
+      updateLoadingState({
         status: "loading_relations",
         current: 0,
         total: myFollowingUids.length,
@@ -746,30 +1203,29 @@ const DynamicFollowingsGraph: React.FC = () => {
       const myFollowingSet = new Set(myFollowingUids);
 
       for (let i = 0; i < myFollowingUids.length; i++) {
-        // 检查组件是否已卸载
-        if (!isMountedRef.current) return;
-
-        if (isPausedRef.current) {
-          try {
-            await waitForResume();
-          } catch {
-            return; // 组件已卸载
-          }
-        }
+        if (isPausedRef.current) await waitForResume(signal);
 
         const uid = myFollowingUids[i];
         const user = users.get(uid);
         if (!user) continue;
 
-        setLoadingState({
+        updateLoadingState({
           status: "loading_relations",
           current: i + 1,
           total: myFollowingUids.length,
           currentUser: user.uname,
         });
 
+        // 本地共同关注仍新鲜时已随本地网络恢复，无需请求
+        if (restoredFollowings.has(uid) && snapshot.freshCommon.has(uid)) {
+          continue;
+        }
+
         try {
-          const result = await getCommonFollowings(uid);
+          const result = await getCommonFollowings(uid, true, {
+            priority: "background",
+            signal,
+          });
           const commonMids = result.response.data.list.map((u) => u.mid);
 
           // 更新该用户的 following 字段
@@ -806,33 +1262,54 @@ const DynamicFollowingsGraph: React.FC = () => {
             addLinksToGraph(newLinks);
           }
 
-          // 延迟：API 请求 300ms，缓存命中 10ms（让 UI 有机会更新）
-          await new Promise((resolve) =>
-            setTimeout(resolve, result.fromCache ? 10 : 300),
-          );
+          // 缓存命中时不经过调度器，让出主线程以便 UI 更新
+          if (result.fromCache) {
+            await new Promise((resolve) => setTimeout(resolve, 0));
+          }
         } catch (error) {
+          // 已取消或登录失效时后续请求都会失败，直接终止
+          if (
+            error instanceof RequestCancelledError ||
+            error instanceof NotLoggedInError
+          ) {
+            throw error;
+          }
           logger.error(`获取 ${user.uname} 的共同关注失败:`, error);
           user.following = [];
+          setFailedUsers((prev) => [
+            ...prev,
+            { uid, uname: user.uname, reason: describeApiError(error) },
+          ]);
         }
       }
 
-      setLoadingState({
+      updateLoadingState({
         status: "done",
         current: myFollowingUids.length,
         total: myFollowingUids.length,
       });
       message.success("数据加载完成！");
     } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        logger.log("加载已取消");
+        return;
+      }
       logger.error("加载失败:", error);
-      message.error(error instanceof Error ? error.message : "加载失败");
-      setLoadingState({
+      message.error(describeApiError(error));
+      updateLoadingState({
         status: "error",
         current: 0,
         total: 0,
-        error: String(error),
+        error: describeApiError(error),
       });
     }
-  }, [message, addNodesToGraph, addLinksToGraph]);
+  }, [
+    message,
+    addNodesToGraph,
+    addLinksToGraph,
+    updateLoadingState,
+    restoreNetwork,
+  ]);
 
   /** 开始/暂停按钮 */
   const handleStartPause = () => {
@@ -966,6 +1443,10 @@ const DynamicFollowingsGraph: React.FC = () => {
     }
   }, []);
 
+  const isLoading =
+    loadingState.status === "loading_followings" ||
+    loadingState.status === "loading_relations";
+
   /** 获取按钮文字 */
   const getButtonText = () => {
     if (loadingState.status === "idle") return "开始加载";
@@ -977,13 +1458,23 @@ const DynamicFollowingsGraph: React.FC = () => {
 
   /** 获取状态文字 */
   const getStatusText = () => {
+    const { throttle } = loadingState;
+    if (isLoading && throttle?.state === "open" && throttle.resumeAt) {
+      const seconds = Math.max(0, Math.ceil((throttle.resumeAt - now) / 1000));
+      return `已限流，${seconds} 秒后恢复`;
+    }
+    const throttleSuffix =
+      isLoading && throttle?.state === "half_open"
+        ? `（限流恢复中 ${Math.round(throttle.throughput * 100)}%）`
+        : "";
+
     switch (loadingState.status) {
       case "idle":
         return "准备就绪";
       case "loading_followings":
-        return `加载关注列表 ${loadingState.current}/${loadingState.total}`;
+        return `加载关注列表 ${loadingState.current}/${loadingState.total}${throttleSuffix}`;
       case "loading_relations":
-        return `加载共同关注 ${loadingState.current}/${loadingState.total}`;
+        return `加载共同关注 ${loadingState.current}/${loadingState.total}${throttleSuffix}`;
       case "done":
         return "加载完成";
       case "error":
@@ -993,9 +1484,6 @@ const DynamicFollowingsGraph: React.FC = () => {
     }
   };
 
-  const isLoading =
-    loadingState.status === "loading_followings" ||
-    loadingState.status === "loading_relations";
   const progress =
     loadingState.total > 0
       ? Math.round((loadingState.current / loadingState.total) * 100)
@@ -1068,6 +1556,24 @@ const DynamicFollowingsGraph: React.FC = () => {
           >
             {deepMode ? "退出深度模式" : "深度模式"}
           </Button>
+          <Tooltip title="扫描图中 UP 主最近 30 个投稿里的联合投稿，为合作者添加黄色连线">
+            <Button
+              size="small"
+              icon={<VideoCameraOutlined />}
+              danger={coCreationScan.running}
+              onClick={(e) => {
+                e.stopPropagation();
+                handleScanCoCreations();
+              }}
+              disabled={
+                !coCreationScan.running && (isLoading || stats.nodeCount === 0)
+              }
+            >
+              {coCreationScan.running
+                ? `停止扫描 ${coCreationScan.current}/${coCreationScan.total}`
+                : "扫描合作"}
+            </Button>
+          </Tooltip>
         </Space>
       ),
       children: (
@@ -1079,7 +1585,15 @@ const DynamicFollowingsGraph: React.FC = () => {
             <Col span={6}>
               <Statistic title="连线数" value={stats.linkCount} />
             </Col>
-            <Col span={12}>
+            <Col span={6}>
+              <Statistic
+                title="请求队列"
+                value={queueSnapshot.pending.length}
+                suffix={`/ 进行中 ${queueSnapshot.running.length}`}
+                valueStyle={{ fontSize: 14 }}
+              />
+            </Col>
+            <Col span={6}>
               <Statistic
                 title="状态"
                 value={getStatusText()}
@@ -1098,6 +1612,26 @@ const DynamicFollowingsGraph: React.FC = () => {
               )}
             </div>
           )}
+
+          {failedUsers.length > 0 && (
+            <div
+              style={{
+                marginTop: 12,
+                maxHeight: 120,
+                overflowY: "auto",
+                fontSize: 12,
+              }}
+            >
+              <div style={{ color: "#ff4d4f", marginBottom: 4 }}>
+                加载失败 {failedUsers.length} 人
+              </div>
+              {failedUsers.map((failed) => (
+                <div key={failed.uid} style={{ color: "#666" }}>
+                  {failed.uname} (UID:{failed.uid}): {failed.reason}
+                </div>
+              ))}
+            </div>
+          )}
         </>
       ),
     },
@@ -1123,9 +1657,13 @@ const DynamicFollowingsGraph: React.FC = () => {
           }}
         >
           <Collapse items={collapseItems} size="small" style={{ flex: 1 }} />
+          <UserSearchSeed
+            onAdd={handleAddSeed}
+            exploreLabel={"添加后深度探索"}
+          />
           <Input.Search
             size="large"
-            placeholder="搜索 UID 或用户名"
+            placeholder="搜索图中节点"
             value={searchValue}
             onChange={(e) => setSearchValue(e.target.value)}
             onSearch={handleSearch}
@@ -1147,18 +1685,28 @@ const DynamicFollowingsGraph: React.FC = () => {
           overflow: "hidden",
         }}
       >
-        {/* 图形容器 */}
+        {/* 图形容器（图例叠加在 force-graph 管理的节点之外） */}
         <div
-          ref={containerRef}
-          style={{
-            flex: 1,
-            minWidth: 0,
-            minHeight: 0,
-            border: "1px solid #d9d9d9",
-            borderRadius: 8,
-            background: "#1a1a1a",
-          }}
-        />
+          style={{ flex: 1, minWidth: 0, minHeight: 0, position: "relative" }}
+        >
+          <div
+            ref={containerRef}
+            style={{
+              width: "100%",
+              height: "100%",
+              border: "1px solid #d9d9d9",
+              borderRadius: 8,
+              background: "#1a1a1a",
+            }}
+          />
+          {colorByGroup && groups.length > 0 && (
+            <GroupLegend
+              groups={groups}
+              groupColors={groupColors}
+              fallbackColor={nodeColor}
+            />
+          )}
+        </div>
 
         {/* 参数调节面板 */}
         <Card
@@ -1263,6 +1811,38 @@ const DynamicFollowingsGraph: React.FC = () => {
               onChange={(color) => setNodeColor(color.toHexString())}
             />
           </div>
+          <div
+            style={{
+              marginBottom: 12,
+              display: "flex",
+              alignItems: "center",
+              gap: 8,
+            }}
+          >
+            <span style={{ fontSize: 12 }}>按分组着色</span>
+            <Switch
+              size="small"
+              checked={colorByGroup}
+              onChange={setColorByGroup}
+            />
+          </div>
+          <div
+            style={{
+              marginBottom: 12,
+              display: "flex",
+              alignItems: "center",
+              gap: 8,
+            }}
+          >
+            <Tooltip title="开启后在后台补全用户资料，节点半径随粉丝数增长">
+              <span style={{ fontSize: 12 }}>按粉丝数调整大小</span>
+            </Tooltip>
+            <Switch
+              size="small"
+              checked={sizeByFollowers}
+              onChange={setSizeByFollowers}
+            />
+          </div>
 
           {/* 连线参数 */}
           <div
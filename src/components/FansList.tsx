@@ -1,13 +1,15 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Table, Tag, Spin } from "antd";
 import type { ColumnsType } from "antd/es/table";
 import { FansItem } from "../types/bilibili";
 import { getFansList, getCurrentUserMid } from "../services/biliApi";
+import { RequestCancelledError, describeApiError } from "../services/errors";
 import { useAppContext } from "../contexts/AppContext";
 import {
   getBaseUserColumns,
   relationColumn,
 } from "./shared/UserTableColumns";
+import { getProfileColumn, useUserProfiles } from "./shared/UserProfiles";
 
 const FansList: React.FC = () => {
   const { message } = useAppContext();
@@ -17,42 +19,57 @@ const FansList: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize] = useState(20);
   const [offset, setOffset] = useState<string>("");
+  const profiles = useUserProfiles(fansList.map((item) => item.mid));
+  // 翻页或卸载时中止上一次请求
+  const abortRef = useRef<AbortController | null>(null);
 
   // 加载粉丝列表
   const loadFans = async (page: number) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setLoading(true);
     try {
       const vmid = getCurrentUserMid();
       if (!vmid) {
-        message.error("无法获取用户 ID，请在个人空间页面使用");
+        message.error("未登录，无法获取用户 ID");
         return;
       }
 
-      const response = await getFansList({
-        vmid,
-        ps: pageSize,
-        pn: page,
-        offset: page === 1 ? undefined : offset,
-      });
+      const response = await getFansList(
+        {
+          vmid,
+          ps: pageSize,
+          pn: page,
+          offset: page === 1 ? undefined : offset,
+        },
+        { signal: controller.signal },
+      );
 
       setFansList(response.data.list);
       setTotal(response.data.total);
       setOffset(response.data.offset);
       setCurrentPage(page);
     } catch (error) {
-      message.error(error instanceof Error ? error.message : "加载失败");
+      if (error instanceof RequestCancelledError) return;
+      message.error(describeApiError(error));
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        setLoading(false);
+      }
     }
   };
 
   useEffect(() => {
     loadFans(1);
+    return () => abortRef.current?.abort();
   }, []);
 
-  // 使用共享基础列 + 关系列
+  // 使用共享基础列 + 资料列 + 关系列
   const columns: ColumnsType<FansItem> = [
     ...getBaseUserColumns(),
+    getProfileColumn(profiles),
     relationColumn,
   ];
 
@@ -1,5 +1,15 @@
-import React, { useState, useEffect } from "react";
-import { Table, Avatar, Tag, Space, Spin, List, Typography } from "antd";
+import React, { useState, useEffect, useRef } from "react";
+import {
+  Table,
+  Avatar,
+  Tag,
+  Space,
+  Spin,
+  List,
+  Typography,
+  Tooltip,
+  Select,
+} from "antd";
 import { UserOutlined } from "@ant-design/icons";
 import type { ColumnsType } from "antd/es/table";
 import { FansItem } from "../types/bilibili";
@@ -7,9 +17,15 @@ import {
   getFollowingsList,
   getCurrentUserMid,
   getCommonFollowings,
+  getRelationTagMembers,
 } from "../services/biliApi";
+import type { RequestPriority } from "../services/scheduler";
+import { RequestCancelledError, describeApiError } from "../services/errors";
 import { useAppContext } from "../contexts/AppContext";
-import { getBaseUserColumns } from "./shared/UserTableColumns";
+import { getBaseUserColumns, getRelationTag } from "./shared/UserTableColumns";
+import { useFollowingGroups } from "./shared/FollowingGroups";
+import { getProfileColumn, useUserProfiles } from "./shared/UserProfiles";
+import { useUserRelations } from "./shared/UserRelations";
 import logger from "../utils/logger";
 
 const { Text } = Typography;
@@ -19,6 +35,8 @@ interface CommonFollowingData {
   mids: number[];
   users: FansItem[];
   loading: boolean;
+  /** 加载失败原因 */
+  error?: string;
 }
 
 const FollowingsList: React.FC = () => {
@@ -32,56 +50,91 @@ const FollowingsList: React.FC = () => {
     Map<number, CommonFollowingData>
   >(new Map());
   const [expandedRowKeys, setExpandedRowKeys] = useState<number[]>([]);
+  // 展开行中的共同关注用户与我的关系
+  const relations = useUserRelations(
+    expandedRowKeys.flatMap((mid) => commonFollowingsMap.get(mid)?.mids ?? []),
+    "normal",
+  );
+  // 当前筛选的关注分组，undefined 表示全部关注
+  const [selectedTag, setSelectedTag] = useState<number>();
+  const { groups, loading: groupsLoading } = useFollowingGroups();
+  const profiles = useUserProfiles(followingsList.map((item) => item.mid));
+  // 翻页或卸载时中止上一页的列表和共同关注请求
+  const abortRef = useRef<AbortController | null>(null);
+
+  // 加载关注列表（选择分组时加载该分组的成员）
+  const loadFollowings = async (
+    page: number,
+    tagid: number | undefined = selectedTag,
+  ) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
 
-  // 加载关注列表
-  const loadFollowings = async (page: number) => {
     setLoading(true);
     try {
-      const vmid = getCurrentUserMid();
-      if (!vmid) {
-        message.error("无法获取用户 ID，请在个人空间页面使用");
-        return;
-      }
+      let list: FansItem[];
 
-      const response = await getFollowingsList({
-        vmid,
-        ps: pageSize,
-        pn: page,
-      });
+      if (tagid !== undefined) {
+        const response = await getRelationTagMembers(
+          {
+            tagid,
+            ps: pageSize,
+            pn: page,
+          },
+          { signal: controller.signal },
+        );
+        list = response.data;
+        // 分组成员接口不返回总数，使用分组信息中的人数
+        setTotal(
+          groups.find((group) => group.tagid === tagid)?.count ?? list.length,
+        );
+      } else {
+        const vmid = getCurrentUserMid();
+        if (!vmid) {
+          message.error("未登录，无法获取用户 ID");
+          return;
+        }
+
+        const response = await getFollowingsList(
+          {
+            vmid,
+            ps: pageSize,
+            pn: page,
+          },
+          { signal: controller.signal },
+        );
+        list = response.data.list;
+        setTotal(response.data.total);
+      }
 
-      setFollowingsList(response.data.list);
-      setTotal(response.data.total);
+      setFollowingsList(list);
       setCurrentPage(page);
 
       // 开始批量加载共同关注
-      loadCommonFollowingsBatch(response.data.list.map((item) => item.mid));
+      loadCommonFollowingsBatch(list.map((item) => item.mid));
     } catch (error) {
-      message.error(error instanceof Error ? error.message : "加载失败");
+      if (error instanceof RequestCancelledError) return;
+      message.error(describeApiError(error));
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        setLoading(false);
+      }
     }
   };
 
-  // 批量加载共同关注（5个一批）
+  // 批量加载共同关注（由全局调度器以后台优先级限速）
   const loadCommonFollowingsBatch = async (mids: number[]) => {
-    const batchSize = 5;
-    const delay = 500; // 每批之间延迟 500ms
-
-    for (let i = 0; i < mids.length; i += batchSize) {
-      const batch = mids.slice(i, i + batchSize);
-
-      // 并行加载这一批
-      await Promise.all(batch.map((mid) => loadCommonFollowing(mid)));
-
-      // 延迟，避免请求过快
-      if (i + batchSize < mids.length) {
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
+    await Promise.all(
+      mids.map((mid) => loadCommonFollowing(mid, "background")),
+    );
   };
 
   // 加载单个用户的共同关注
-  const loadCommonFollowing = async (mid: number) => {
+  const loadCommonFollowing = async (
+    mid: number,
+    priority: RequestPriority,
+  ) => {
     // 设置加载状态
     setCommonFollowingsMap((prev) =>
       new Map(prev).set(mid, {
@@ -93,7 +146,10 @@ const FollowingsList: React.FC = () => {
     );
 
     try {
-      const result = await getCommonFollowings(mid);
+      const result = await getCommonFollowings(mid, true, {
+        priority,
+        signal: abortRef.current?.signal,
+      });
       const users = result.response.data.list;
       const mids = users.map((u) => u.mid);
 
@@ -106,6 +162,7 @@ const FollowingsList: React.FC = () => {
         }),
       );
     } catch (error) {
+      if (error instanceof RequestCancelledError) return;
       logger.error(`加载共同关注失败 (mid: ${mid})`, error);
       setCommonFollowingsMap((prev) =>
         new Map(prev).set(mid, {
@@ -113,6 +170,7 @@ const FollowingsList: React.FC = () => {
           mids: [],
           users: [],
           loading: false,
+          error: describeApiError(error),
         }),
       );
     }
@@ -120,6 +178,7 @@ const FollowingsList: React.FC = () => {
 
   useEffect(() => {
     loadFollowings(1);
+    return () => abortRef.current?.abort();
   }, []);
 
   // 展开行渲染
@@ -138,6 +197,14 @@ const FollowingsList: React.FC = () => {
       );
     }
 
+    if (commonData.error) {
+      return (
+        <div style={{ padding: "12px", color: "#ff4d4f" }}>
+          加载失败: {commonData.error}
+        </div>
+      );
+    }
+
     if (commonData.count === 0) {
       return <div style={{ padding: "12px", color: "#999" }}>暂无共同关注</div>;
     }
@@ -162,6 +229,8 @@ const FollowingsList: React.FC = () => {
                 >
                   {user.uname}
                 </a>
+                {relations.has(user.mid) &&
+                  getRelationTag(relations.get(user.mid)!.attribute)}
               </Space>
             </List.Item>
           )}
@@ -183,6 +252,13 @@ const FollowingsList: React.FC = () => {
       if (common.loading) {
         return <Spin size="small" />;
       }
+      if (common.error) {
+        return (
+          <Tooltip title={common.error}>
+            <Tag color="red">失败</Tag>
+          </Tooltip>
+        );
+      }
       if (common.count === 0) {
         return <Tag color="default">无</Tag>;
       }
@@ -190,14 +266,56 @@ const FollowingsList: React.FC = () => {
     },
   };
 
-  // 使用共享基础列 + 共同关注列
+  // 所在分组列（FollowingsList 特有）
+  const groupColumn: ColumnsType<FansItem>[number] = {
+    title: "分组",
+    key: "group",
+    width: 140,
+    render: (_, record) => {
+      const names = groups
+        .filter((group) => record.tag?.includes(group.tagid))
+        .map((group) => group.name);
+      return names.length > 0 ? (
+        <Space size={[0, 4]} wrap>
+          {names.map((name) => (
+            <Tag key={name}>{name}</Tag>
+          ))}
+        </Space>
+      ) : (
+        <Text type="secondary">默认分组</Text>
+      );
+    },
+  };
+
+  // 使用共享基础列 + 资料列 + 分组列 + 共同关注列
   const columns: ColumnsType<FansItem> = [
     ...getBaseUserColumns(),
+    getProfileColumn(profiles),
+    groupColumn,
     commonFollowingsColumn,
   ];
 
   return (
     <div style={{ height: "100%", display: "flex", flexDirection: "column" }}>
+      <Space style={{ padding: "8px 0", flexShrink: 0 }}>
+        <Text>分组</Text>
+        <Select
+          style={{ width: 220 }}
+          placeholder="全部关注"
+          allowClear
+          loading={groupsLoading}
+          value={selectedTag}
+          onChange={(tagid?: number) => {
+            setSelectedTag(tagid);
+            setExpandedRowKeys([]);
+            loadFollowings(1, tagid);
+          }}
+          options={groups.map((group) => ({
+            label: `${group.name} (${group.count})`,
+            value: group.tagid,
+          }))}
+        />
+      </Space>
       <Spin spinning={loading} style={{ flex: 1, overflow: "hidden" }}>
         <Table
           columns={columns}
@@ -209,7 +327,10 @@ const FollowingsList: React.FC = () => {
             pageSize: pageSize,
             total: total,
             onChange: (page) => loadFollowings(page),
-            showTotal: (total) => `共 ${total} 个关注`,
+            showTotal: (total) =>
+              selectedTag !== undefined
+                ? `分组内共 ${total} 人`
+                : `共 ${total} 个关注`,
             showSizeChanger: false,
           }}
           expandable={{
@@ -218,6 +339,10 @@ const FollowingsList: React.FC = () => {
             onExpand: (expanded, record) => {
               if (expanded) {
                 setExpandedRowKeys([...expandedRowKeys, record.mid]);
+                // 展开仍在排队的行时，以交互优先级插队加载
+                if (commonFollowingsMap.get(record.mid)?.loading) {
+                  loadCommonFollowing(record.mid, "interactive");
+                }
               } else {
                 setExpandedRowKeys(
                   expandedRowKeys.filter((key) => key !== record.mid),
@@ -226,7 +351,9 @@ const FollowingsList: React.FC = () => {
             },
             rowExpandable: (record) => {
               const common = commonFollowingsMap.get(record.mid);
-              return common ? common.count > 0 : true;
+              return common
+                ? common.loading || common.count > 0 || !!common.error
+                : true;
             },
           }}
         />
@@ -19,11 +19,20 @@ import {
   ApartmentOutlined,
   UserOutlined,
   LinkOutlined,
+  DashboardOutlined,
+  DatabaseOutlined,
+  EyeInvisibleOutlined,
+  StopOutlined,
 } from "@ant-design/icons";
 import FansList from "./FansList";
 import FollowingsList from "./FollowingsList";
+import WhispersList from "./WhispersList";
+import BlacksList from "./BlacksList";
 import DynamicFollowingsGraph from "./DynamicFollowingsGraph/index";
 import ReactForceGraph from "./ReactForceGraph/index";
+import DiagnosticsPanel from "./DiagnosticsPanel";
+import CacheInspector from "./CacheInspector";
+import AccountSwitcher, { useActiveAccountMid } from "./AccountSwitcher";
 import metadata from "../metadata.json";
 
 const { Title, Text, Paragraph } = Typography;
@@ -34,6 +43,8 @@ interface InfoModalProps {
 }
 
 const InfoModal: React.FC<InfoModalProps> = ({ visible, onClose }) => {
+  const activeMid = useActiveAccountMid();
+
   const scriptInfoTab = (
     <div style={{ padding: "16px 0" }}>
       {/* 头部卡片 */}
@@ -219,6 +230,26 @@ const InfoModal: React.FC<InfoModalProps> = ({ visible, onClose }) => {
       ),
       children: <FollowingsList />,
     },
+    {
+      key: "whispers",
+      label: (
+        <Space>
+          <EyeInvisibleOutlined />
+          悄悄关注
+        </Space>
+      ),
+      children: <WhispersList />,
+    },
+    {
+      key: "blacks",
+      label: (
+        <Space>
+          <StopOutlined />
+          黑名单
+        </Space>
+      ),
+      children: <BlacksList />,
+    },
     {
       key: "dynamicgraph",
       label: (
@@ -239,6 +270,26 @@ const InfoModal: React.FC<InfoModalProps> = ({ visible, onClose }) => {
       ),
       children: <ReactForceGraph />,
     },
+    {
+      key: "diagnostics",
+      label: (
+        <Space>
+          <DashboardOutlined />
+          诊断
+        </Space>
+      ),
+      children: <DiagnosticsPanel />,
+    },
+    {
+      key: "cache",
+      label: (
+        <Space>
+          <DatabaseOutlined />
+          缓存
+        </Space>
+      ),
+      children: <CacheInspector />,
+    },
   ];
 
   return (
@@ -253,11 +304,14 @@ const InfoModal: React.FC<InfoModalProps> = ({ visible, onClose }) => {
       destroyOnHidden
     >
       <div style={{ height: "90vh", display: "flex", flexDirection: "column" }}>
+        {/* 切换账号后重新挂载各标签页，按新账号的缓存重新加载 */}
         <Tabs
+          key={activeMid}
           items={items}
           defaultActiveKey="info"
           style={{ height: "100%", display: "flex", flexDirection: "column" }}
           tabBarStyle={{ flexShrink: 0, marginBottom: 0 }}
+          tabBarExtraContent={<AccountSwitcher />}
         />
       </div>
     </Modal>
@@ -12,6 +12,8 @@ import {
   ColorPicker,
   Input,
   Collapse,
+  Switch,
+  Tooltip,
 } from "antd";
 import type { CollapseProps } from "antd";
 import {
@@ -30,10 +32,37 @@ import { useAppContext } from "../../contexts/AppContext";
 import {
   getCurrentUserMid,
   getCurrentUserMidFromAPI,
-  getFollowingsList,
   getCommonFollowings,
+  iterateFollowings,
+  SearchedUser,
 } from "../../services/biliApi";
+import {
+  NotLoggedInError,
+  RequestCancelledError,
+  describeApiError,
+} from "../../services/errors";
+import { SchedulerSnapshot, requestScheduler } from "../../services/scheduler";
+import {
+  CircuitBreakerSnapshot,
+  circuitBreaker,
+} from "../../services/circuitBreaker";
+import { NetworkSnapshot, graphStore } from "../../services/graphStore";
+import { accountScope } from "../../utils/accountScope";
 import logger from "../../utils/logger";
+import {
+  GroupLegend,
+  getGroupColor,
+  useFollowingGroups,
+  useGroupColors,
+} from "../shared/FollowingGroups";
+import {
+  getProfileNodeVal,
+  getUserNodeLabel,
+  useLiveNodeLabel,
+  useUserProfiles,
+} from "../shared/UserProfiles";
+import { useHoveredUserRelations } from "../shared/UserRelations";
+import UserSearchSeed from "../shared/UserSearchSeed";
 
 // ================== 类型定义 ==================
 
@@ -58,6 +87,8 @@ interface GraphNode {
   id: number;
   name: string;
   face: string;
+  /** 所在关注分组（仅自己的关注） */
+  tags?: number[];
   neighbors?: GraphNode[];
   links?: GraphLink[];
   x?: number;
@@ -73,15 +104,20 @@ interface GraphLink {
 /** 加载状态 */
 interface LoadingState {
   status:
-    | "idle"
-    | "loading_followings"
-    | "loading_relations"
-    | "done"
-    | "error";
+    "idle" | "loading_followings" | "loading_relations" | "done" | "error";
   current: number;
   total: number;
   currentUser?: string;
   error?: string;
+  /** 风控熔断状态（未熔断时为空） */
+  throttle?: CircuitBreakerSnapshot;
+}
+
+/** 加载失败的用户 */
+interface FailedUser {
+  uid: number;
+  uname: string;
+  reason: string;
 }
 
 type DagMode = "td" | "bu" | "lr" | "rl" | "radialout" | "radialin" | undefined;
@@ -121,8 +157,13 @@ const ReactForceGraph: React.FC = () => {
     current: 0,
     total: 0,
   });
+  const [failedUsers, setFailedUsers] = useState<FailedUser[]>([]);
   const [isPaused, setIsPaused] = useState(false);
   const isPausedRef = useRef(false);
+  // 中止控制器：组件卸载或重新加载时取消排队中和进行中的请求
+  const loadAbortRef = useRef<AbortController | null>(null);
+  // 搜索加入的用户的共同关注查询，卸载时中止
+  const seedAbortRef = useRef<AbortController | null>(null);
   const [dagMode, setDagMode] = useState<DagMode>(undefined);
 
   // 力引擎参数
@@ -130,6 +171,12 @@ const ReactForceGraph: React.FC = () => {
   const [velocityDecay, setVelocityDecay] = useState(0.4);
   const [particleSpeed, setParticleSpeed] = useState(0.01);
   const [nodeColor, setNodeColor] = useState("#4ecdc4");
+  // 按关注分组着色，开启时才加载分组
+  const [colorByGroup, setColorByGroup] = useState(false);
+  const { groups } = useFollowingGroups(colorByGroup);
+  const groupColors = useGroupColors(groups);
+  // 按粉丝数调整节点大小，开启时才补全用户资料
+  const [sizeByFollowers, setSizeByFollowers] = useState(false);
   const [nodeRelSize, setNodeRelSize] = useState(4);
   const [linkColor, setLinkColor] = useState("#ffffff40");
   const [linkCurvature, setLinkCurvature] = useState(0);
@@ -139,11 +186,31 @@ const ReactForceGraph: React.FC = () => {
 
   // 统计信息
   const [stats, setStats] = useState({ nodeCount: 0, linkCount: 0 });
+  const [queueSnapshot, setQueueSnapshot] = useState<SchedulerSnapshot>(() =>
+    requestScheduler.getSnapshot(),
+  );
 
   // 搜索状态
   const [searchValue, setSearchValue] = useState("");
   const searchedNodesRef = useRef<Set<GraphNode>>(new Set());
 
+  const nodeIds = graphData.nodes.map((node) => node.id);
+  const profiles = useUserProfiles(nodeIds, sizeByFollowers);
+  // 与我的关系只在悬停标签中展示，只查询悬停过的节点
+  const [relations, handleRelationHover] = useHoveredUserRelations();
+  // 悬停期间查询到的关系直接更新到当前标签
+  const nodeLabel = useLiveNodeLabel(
+    useCallback(
+      (node: GraphNode) =>
+        getUserNodeLabel(
+          node.name,
+          profiles.get(node.id),
+          relations.get(node.id),
+        ),
+      [profiles, relations],
+    ),
+  );
+
   // 高亮状态
   const highlightNodesRef = useRef<Set<GraphNode>>(new Set());
   const highlightLinksRef = useRef<Set<GraphLink>>(new Set());
@@ -157,6 +224,38 @@ const ReactForceGraph: React.FC = () => {
     isPausedRef.current = isPaused;
   }, [isPaused]);
 
+  // 订阅全局请求队列
+  useEffect(() => requestScheduler.subscribe(setQueueSnapshot), []);
+
+  // 风控熔断状态同步到加载状态
+  useEffect(
+    () =>
+      circuitBreaker.subscribe((snapshot) => {
+        setLoadingState((prev) => ({
+          ...prev,
+          throttle: snapshot.state === "closed" ? undefined : snapshot,
+        }));
+      }),
+    [],
+  );
+
+  // 熔断倒计时
+  const [now, setNow] = useState(Date.now());
+  const throttleResumeAt = loadingState.throttle?.resumeAt;
+  useEffect(() => {
+    if (!throttleResumeAt) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [throttleResumeAt]);
+
+  // 组件卸载时中止进行中的请求
+  useEffect(() => {
+    return () => {
+      loadAbortRef.current?.abort();
+      seedAbortRef.current?.abort();
+    };
+  }, []);
+
   // 监听容器尺寸变化
   useEffect(() => {
     if (!containerRef.current) return;
@@ -270,10 +369,14 @@ const ReactForceGraph: React.FC = () => {
     });
   }, []);
 
-  /** 等待恢复 */
-  const waitForResume = (): Promise<void> => {
-    return new Promise((resolve) => {
+  /** 等待恢复（加载被中止时以 RequestCancelledError 拒绝） */
+  const waitForResume = (signal: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
       const check = () => {
+        if (signal.aborted) {
+          reject(new RequestCancelledError());
+          return;
+        }
         if (!isPausedRef.current) {
           resolve();
         } else {
@@ -284,125 +387,186 @@ const ReactForceGraph: React.FC = () => {
     });
   };
 
-  /** 加载所有数据 */
-  const loadAllData = useCallback(async () => {
-    try {
-      let myMid = getCurrentUserMid();
-      if (!myMid) {
-        try {
-          myMid = await getCurrentUserMidFromAPI();
-        } catch {
-          message.error("无法获取用户 ID，请确保已登录");
-          setLoadingState({
-            status: "error",
-            current: 0,
-            total: 0,
-            error: "未登录",
-          });
-          return;
-        }
-      }
+  /** 更新加载进度，保留熔断状态 */
+  const updateLoadingState = useCallback(
+    (next: Omit<LoadingState, "throttle">) => {
+      setLoadingState((prev) => ({ ...next, throttle: prev.throttle }));
+    },
+    [],
+  );
 
-      // 重置图形数据
+  /**
+   * 重置图形并从本地关系网络恢复我的关注及其之间的关系
+   * @returns 恢复的节点数
+   */
+  const restoreNetwork = useCallback(
+    (myMid: number, snapshot: NetworkSnapshot): number => {
       setGraphData({ nodes: [], links: [] });
       setStats({ nodeCount: 0, linkCount: 0 });
+      setFailedUsers([]);
 
       const users = new Map<number, UserData>();
       appStateRef.current = { myUid: myMid, users };
-
       users.set(myMid, {
         uid: myMid,
         uname: "我",
         face: "",
-        following: [],
+        following: [...snapshot.followings],
         deepFollowing: [],
         deepFollower: [],
       });
 
-      setLoadingState({ status: "loading_followings", current: 0, total: 0 });
-      message.info("正在加载关注列表...");
-
-      const myFollowingUids: number[] = [];
-      let page = 1;
-      const pageSize = 50;
-
-      const firstResponse = await getFollowingsList({
-        vmid: myMid,
-        ps: pageSize,
-        pn: 1,
-      });
-      const total = firstResponse.data.total;
-      const totalPages = Math.ceil(total / pageSize);
-
-      const firstPageNodes: GraphNode[] = [];
-      firstResponse.data.list.forEach((item) => {
-        myFollowingUids.push(item.mid);
-        users.set(item.mid, {
-          uid: item.mid,
-          uname: item.uname,
-          face: item.face,
-          following: [],
+      const nodes: GraphNode[] = snapshot.followings.map((mid) => {
+        const stored = snapshot.users.get(mid);
+        const uname = stored?.name ?? `UID:${mid}`;
+        const face = stored?.face ?? "";
+        users.set(mid, {
+          uid: mid,
+          uname,
+          face,
+          following: snapshot.commonFollowings.get(mid) ?? [],
           deepFollowing: [],
           deepFollower: [],
         });
-        firstPageNodes.push({
-          id: item.mid,
-          name: item.uname,
-          face: item.face,
-        });
+        return { id: mid, name: uname, face };
       });
+      const links: GraphLink[] = [];
+      snapshot.commonFollowings.forEach((targets, uid) =>
+        targets.forEach((targetId) =>
+          links.push({ source: targetId, target: uid }),
+        ),
+      );
+
+      addNodesToGraph(nodes);
+      addLinksToGraph(links);
+      return nodes.length;
+    },
+    [addNodesToGraph, addLinksToGraph],
+  );
+
+  // 打开时直接展示本地关系网络，开始加载后只补全缺失或过期的部分
+  useEffect(() => {
+    const myMid = accountScope.getActiveMid();
+    if (!myMid) return;
+    let cancelled = false;
+    graphStore.getNetworkSnapshot(myMid).then((snapshot) => {
+      // 已开始加载时由加载流程负责恢复
+      if (cancelled || loadAbortRef.current) return;
+      restoreNetwork(myMid, snapshot);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [restoreNetwork]);
+
+  /** 加载所有数据
+   * 重新加载或组件卸载时通过 AbortSignal 取消上一次加载
+   */
+  const loadAllData = useCallback(async () => {
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    const { signal } = controller;
+
+    try {
+      let myMid = getCurrentUserMid();
+      if (!myMid) {
+        try {
+          myMid = await getCurrentUserMidFromAPI({ signal });
+        } catch (error) {
+          if (error instanceof RequestCancelledError) return;
+          const reason =
+            error instanceof NotLoggedInError
+              ? "未登录"
+              : describeApiError(error);
+          message.error(`无法获取用户 ID: ${reason}`);
+          updateLoadingState({
+            status: "error",
+            current: 0,
+            total: 0,
+            error: reason,
+          });
+          return;
+        }
+      }
 
-      users.get(myMid)!.following = [...myFollowingUids];
-      addNodesToGraph(firstPageNodes);
+      // 重置图形数据，先展示本地关系网络
+      const snapshot = await graphStore.getNetworkSnapshot(myMid);
+      if (signal.aborted) return;
+      const restored = restoreNetwork(myMid, snapshot);
+      if (restored > 0) {
+        message.info(`已从本地关系网络载入 ${restored} 个节点`);
+      }
+      const users = appStateRef.current.users;
+      const restoredFollowings = new Set(snapshot.followings);
 
-      setLoadingState({
+      updateLoadingState({
         status: "loading_followings",
-        current: myFollowingUids.length,
-        total,
+        current: 0,
+        total: 0,
       });
+      message.info("正在加载关注列表...");
 
-      for (page = 2; page <= totalPages; page++) {
-        if (isPausedRef.current) await waitForResume();
-
-        const response = await getFollowingsList({
-          vmid: myMid,
-          ps: pageSize,
-          pn: page,
-        });
+      const myFollowingUids: number[] = [];
 
+      for await (const page of iterateFollowings(myMid, {
+        isSelf: true,
+        signal,
+      })) {
         const pageNodes: GraphNode[] = [];
-        response.data.list.forEach((item) => {
+        page.list.forEach((item) => {
           myFollowingUids.push(item.mid);
           users.set(item.mid, {
-            uid: item.mid,
-            uname: item.uname,
-            face: item.face,
             following: [],
             deepFollowing: [],
             deepFollower: [],
+            ...users.get(item.mid),
+            uid: item.mid,
+            uname: item.uname,
+            face: item.face,
           });
           pageNodes.push({
             id: item.mid,
             name: item.uname,
             face: item.face,
+            tags: item.tag ?? undefined,
           });
         });
 
         users.get(myMid)!.following = [...myFollowingUids];
+        // 从本地恢复的节点已在图中，只更新资料和分组
+        setGraphData((prev) => {
+          const pageNodeMap = new Map(pageNodes.map((node) => [node.id, node]));
+          prev.nodes.forEach((node) => {
+            const pageNode = pageNodeMap.get(node.id);
+            if (!pageNode) return;
+            node.name = pageNode.name;
+            node.face = pageNode.face;
+            node.tags = pageNode.tags;
+          });
+          return prev;
+        });
         addNodesToGraph(pageNodes);
 
-        setLoadingState({
+        updateLoadingState({
           status: "loading_followings",
           current: myFollowingUids.length,
-          total,
+          total: page.total,
         });
 
-        await new Promise((resolve) => setTimeout(resolve, 200));
+        if (page.truncated) {
+          message.warning(
+            `关注列表未能完整获取 (${page.fetched}/${page.total})`,
+          );
+        }
+
+        // 获取下一页前检查暂停
+        if (isPausedRef.current) await waitForResume(signal);
       }
 
       message.success(`成功加载 ${myFollowingUids.length} 个关注`);
 
-      setLoadingState({
+      updateLoadingState({
         status: "loading_relations",
         current: 0,
         total: myFollowingUids.length,
@@ -412,21 +576,29 @@ const ReactForceGraph: React.FC = () => {
       const myFollowingSet = new Set(myFollowingUids);
 
       for (let i = 0; i < myFollowingUids.length; i++) {
-        if (isPausedRef.current) await waitForResume();
+        if (isPausedRef.current) await waitForResume(signal);
 
         const uid = myFollowingUids[i];
         const user = users.get(uid);
         if (!user) continue;
 
-        setLoadingState({
+        updateLoadingState({
           status: "loading_relations",
           current: i + 1,
           total: myFollowingUids.length,
           currentUser: user.uname,
         });
 
+        // 本地共同关注仍新鲜时已随本地网络恢复，无需请求
+        if (restoredFollowings.has(uid) && snapshot.freshCommon.has(uid)) {
+          continue;
+        }
+
         try {
-          const result = await getCommonFollowings(uid);
+          const result = await getCommonFollowings(uid, true, {
+            priority: "background",
+            signal,
+          });
           const commonMids = result.response.data.list.map((u) => u.mid);
 
           user.following = commonMids;
@@ -455,32 +627,54 @@ const ReactForceGraph: React.FC = () => {
             addLinksToGraph(newLinks);
           }
 
-          await new Promise((resolve) =>
-            setTimeout(resolve, result.fromCache ? 10 : 300),
-          );
+          // 缓存命中时不经过调度器，让出主线程以便 UI 更新
+          if (result.fromCache) {
+            await new Promise((resolve) => setTimeout(resolve, 0));
+          }
         } catch (error) {
+          // 已取消或登录失效时后续请求都会失败，直接终止
+          if (
+            error instanceof RequestCancelledError ||
+            error instanceof NotLoggedInError
+          ) {
+            throw error;
+          }
           logger.error(`获取 ${user.uname} 的共同关注失败:`, error);
           user.following = [];
+          setFailedUsers((prev) => [
+            ...prev,
+            { uid, uname: user.uname, reason: describeApiError(error) },
+          ]);
         }
       }
 
-      setLoadingState({
+      updateLoadingState({
         status: "done",
         current: myFollowingUids.length,
         total: myFollowingUids.length,
       });
       message.success("数据加载完成！");
     } catch (error) {
+      if (error instanceof RequestCancelledError) {
+        logger.log("加载已取消");
+        return;
+      }
       logger.error("加载失败:", error);
-      message.error(error instanceof Error ? error.message : "加载失败");
-      setLoadingState({
+      message.error(describeApiError(error));
+      updateLoadingState({
         status: "error",
         current: 0,
         total: 0,
-        error: String(error),
+        error: describeApiError(error),
       });
     }
-  }, [message, addNodesToGraph, addLinksToGraph]);
+  }, [
+    message,
+    addNodesToGraph,
+    addLinksToGraph,
+    updateLoadingState,
+    restoreNetwork,
+  ]);
 
   /** 开始/暂停按钮 */
   const handleStartPause = () => {
@@ -589,12 +783,72 @@ const ReactForceGraph: React.FC = () => {
     [graphData.nodes, message],
   );
 
+  /**
+   * 从用户搜索加入节点，可选查询其与我的共同关注并连线
+   * 共同关注即双方都关注的人，与加载关注关系时的连线含义一致
+   */
+  const handleAddSeed = useCallback(
+    async (seed: SearchedUser, explore: boolean) => {
+      const node: GraphNode = {
+        id: seed.mid,
+        name: seed.uname,
+        face: seed.face,
+      };
+      const existing = graphData.nodes.find((item) => item.id === seed.mid);
+      if (existing) {
+        message.info(`${seed.uname} 已在图中`);
+      } else {
+        addNodesToGraph([node]);
+        message.success(`已加入 ${seed.uname}`);
+      }
+      searchedNodesRef.current = new Set([existing ?? node]);
+
+      if (!explore) return;
+
+      seedAbortRef.current?.abort();
+      const controller = new AbortController();
+      seedAbortRef.current = controller;
+
+      try {
+        const result = await getCommonFollowings(seed.mid, true, {
+          priority: "interactive",
+          signal: controller.signal,
+        });
+        const commons = result.response.data.list;
+
+        addNodesToGraph(
+          commons.map((item) => ({
+            id: item.mid,
+            name: item.uname,
+            face: item.face,
+            tags: item.tag ?? undefined,
+          })),
+        );
+        addLinksToGraph(
+          commons.map((item) => ({ source: item.mid, target: seed.mid })),
+        );
+        message.success(
+          `${seed.uname} 与你有 ${result.response.data.total} 个共同关注`,
+        );
+      } catch (error) {
+        if (error instanceof RequestCancelledError) return;
+        logger.error(`查询 ${seed.uname} 的共同关注失败:`, error);
+        message.error(`查询共同关注失败: ${describeApiError(error)}`);
+      }
+    },
+    [graphData.nodes, message, addNodesToGraph, addLinksToGraph],
+  );
+
   /** 清除搜索高亮 */
   const handleClearSearch = useCallback(() => {
     setSearchValue("");
     searchedNodesRef.current.clear();
   }, []);
 
+  const isLoading =
+    loadingState.status === "loading_followings" ||
+    loadingState.status === "loading_relations";
+
   /** 获取按钮文字 */
   const getButtonText = () => {
     if (loadingState.status === "idle") return "开始加载";
@@ -606,13 +860,23 @@ const ReactForceGraph: React.FC = () => {
 
   /** 获取状态文字 */
   const getStatusText = () => {
+    const { throttle } = loadingState;
+    if (isLoading && throttle?.state === "open" && throttle.resumeAt) {
+      const seconds = Math.max(0, Math.ceil((throttle.resumeAt - now) / 1000));
+      return `已限流，${seconds} 秒后恢复`;
+    }
+    const throttleSuffix =
+      isLoading && throttle?.state === "half_open"
+        ? `（限流恢复中 ${Math.round(throttle.throughput * 100)}%）`
+        : "";
+
     switch (loadingState.status) {
       case "idle":
         return "准备就绪";
       case "loading_followings":
-        return `加载关注列表 ${loadingState.current}/${loadingState.total}`;
+        return `加载关注列表 ${loadingState.current}/${loadingState.total}${throttleSuffix}`;
       case "loading_relations":
-        return `加载共同关注 ${loadingState.current}/${loadingState.total}`;
+        return `加载共同关注 ${loadingState.current}/${loadingState.total}${throttleSuffix}`;
       case "done":
         return "加载完成";
       case "error":
@@ -622,9 +886,6 @@ const ReactForceGraph: React.FC = () => {
     }
   };
 
-  const isLoading =
-    loadingState.status === "loading_followings" ||
-    loadingState.status === "loading_relations";
   const progress =
     loadingState.total > 0
       ? Math.round((loadingState.current / loadingState.total) * 100)
@@ -644,6 +905,7 @@ const ReactForceGraph: React.FC = () => {
     }
 
     hoverNodeRef.current = node;
+    handleRelationHover(node?.id ?? null);
     if (containerRef.current) {
       containerRef.current.style.cursor = node ? "pointer" : "default";
     }
@@ -668,11 +930,26 @@ const ReactForceGraph: React.FC = () => {
     window.open(`https://space.bilibili.com/${node.id}`, "_blank");
   }, []);
 
+  /** 节点颜色：按分组着色时使用分组颜色，未分组使用默认颜色 */
+  const resolveNodeColor = useCallback(
+    (node: GraphNode) =>
+      (colorByGroup && getGroupColor(node.tags, groupColors)) || nodeColor,
+    [colorByGroup, groupColors, nodeColor],
+  );
+
+  /** 节点大小权重（半径与其平方根成正比） */
+  const resolveNodeVal = useCallback(
+    (node: GraphNode) =>
+      sizeByFollowers ? getProfileNodeVal(profiles.get(node.id)) : 1,
+    [sizeByFollowers, profiles],
+  );
+
   // 自定义节点绘制
   const nodeCanvasObject = useCallback(
     (node: GraphNode, ctx: CanvasRenderingContext2D, globalScale: number) => {
       const NODE_R = 8;
       if (!node.x || !node.y) return;
+      const scale = Math.sqrt(resolveNodeVal(node));
 
       // 绘制高亮光环
       if (
@@ -680,7 +957,7 @@ const ReactForceGraph: React.FC = () => {
         searchedNodesRef.current.has(node)
       ) {
         ctx.beginPath();
-        ctx.arc(node.x, node.y, NODE_R * 0.56, 0, 2 * Math.PI, false);
+        ctx.arc(node.x, node.y, NODE_R * 0.56 * scale, 0, 2 * Math.PI, false);
         if (searchedNodesRef.current.has(node)) {
           ctx.fillStyle = "#00ff00";
         } else if (node === hoverNodeRef.current) {
@@ -693,8 +970,8 @@ const ReactForceGraph: React.FC = () => {
 
       // 绘制节点
       ctx.beginPath();
-      ctx.arc(node.x, node.y, nodeRelSize, 0, 2 * Math.PI, false);
-      ctx.fillStyle = nodeColor;
+      ctx.arc(node.x, node.y, nodeRelSize * scale, 0, 2 * Math.PI, false);
+      ctx.fillStyle = resolveNodeColor(node);
       ctx.fill();
 
       // 绘制标签（当缩放足够大时）
@@ -705,10 +982,10 @@ const ReactForceGraph: React.FC = () => {
         ctx.textAlign = "center";
         ctx.textBaseline = "middle";
         ctx.fillStyle = "#ffffff";
-        ctx.fillText(label, node.x, node.y + nodeRelSize + fontSize);
+        ctx.fillText(label, node.x, node.y + nodeRelSize * scale + fontSize);
       }
     },
-    [nodeColor, nodeRelSize],
+    [resolveNodeColor, resolveNodeVal, nodeRelSize],
   );
 
   // 折叠面板内容
@@ -786,7 +1063,15 @@ const ReactForceGraph: React.FC = () => {
             <Col span={6}>
               <Statistic title="连线数" value={stats.linkCount} />
             </Col>
-            <Col span={12}>
+            <Col span={6}>
+              <Statistic
+                title="请求队列"
+                value={queueSnapshot.pending.length}
+                suffix={`/ 进行中 ${queueSnapshot.running.length}`}
+                valueStyle={{ fontSize: 14 }}
+              />
+            </Col>
+            <Col span={6}>
               <Statistic
                 title="状态"
                 value={getStatusText()}
@@ -805,6 +1090,26 @@ const ReactForceGraph: React.FC = () => {
               )}
             </div>
           )}
+
+          {failedUsers.length > 0 && (
+            <div
+              style={{
+                marginTop: 12,
+                maxHeight: 120,
+                overflowY: "auto",
+                fontSize: 12,
+              }}
+            >
+              <div style={{ color: "#ff4d4f", marginBottom: 4 }}>
+                加载失败 {failedUsers.length} 人
+              </div>
+              {failedUsers.map((failed) => (
+                <div key={failed.uid} style={{ color: "#666" }}>
+                  {failed.uname} (UID:{failed.uid}): {failed.reason}
+                </div>
+              ))}
+            </div>
+          )}
         </>
       ),
     },
@@ -830,9 +1135,13 @@ const ReactForceGraph: React.FC = () => {
           }}
         >
           <Collapse items={collapseItems} size="small" style={{ flex: 1 }} />
+          <UserSearchSeed
+            onAdd={handleAddSeed}
+            exploreLabel={"添加后查询共同关注"}
+          />
           <Input.Search
             size="large"
-            placeholder="搜索 UID 或用户名"
+            placeholder="搜索图中节点"
             value={searchValue}
             onChange={(e) => setSearchValue(e.target.value)}
             onSearch={handleSearch}
@@ -865,6 +1174,7 @@ const ReactForceGraph: React.FC = () => {
             borderRadius: 8,
             background: "#1a1a1a",
             overflow: "hidden",
+            position: "relative",
           }}
         >
           <ForceGraph2D
@@ -873,9 +1183,11 @@ const ReactForceGraph: React.FC = () => {
             width={dimensions.width}
             height={dimensions.height}
             nodeId="id"
-            nodeLabel="name"
-            nodeColor={() => nodeColor}
+            // force-graph 支持以 HTML 元素作为提示，react-force-graph 的类型声明中未包含
+            nodeLabel={nodeLabel as unknown as (node: GraphNode) => string}
+            nodeColor={resolveNodeColor}
             nodeRelSize={nodeRelSize}
+            nodeVal={resolveNodeVal}
             linkColor={() => linkColor}
             linkWidth={(link) => (highlightLinksRef.current.has(link) ? 3 : 1)}
             linkCurvature={linkCurvature}
@@ -902,6 +1214,13 @@ const ReactForceGraph: React.FC = () => {
             nodeCanvasObject={nodeCanvasObject}
             backgroundColor="#1a1a1a"
           />
+          {colorByGroup && groups.length > 0 && (
+            <GroupLegend
+              groups={groups}
+              groupColors={groupColors}
+              fallbackColor={nodeColor}
+            />
+          )}
         </div>
 
         {/* 参数调节面板 */}
@@ -1001,6 +1320,38 @@ const ReactForceGraph: React.FC = () => {
               onChange={(color) => setNodeColor(color.toHexString())}
             />
           </div>
+          <div
+            style={{
+              marginBottom: 12,
+              display: "flex",
+              alignItems: "center",
+              gap: 8,
+            }}
+          >
+            <span style={{ fontSize: 12 }}>按分组着色</span>
+            <Switch
+              size="small"
+              checked={colorByGroup}
+              onChange={setColorByGroup}
+            />
+          </div>
+          <div
+            style={{
+              marginBottom: 12,
+              display: "flex",
+              alignItems: "center",
+              gap: 8,
+            }}
+          >
+            <Tooltip title="开启后在后台补全用户资料，节点半径随粉丝数增长">
+              <span style={{ fontSize: 12 }}>按粉丝数调整大小</span>
+            </Tooltip>
+            <Switch
+              size="small"
+              checked={sizeByFollowers}
+              onChange={setSizeByFollowers}
+            />
+          </div>
 
           {/* 连线参数 */}
           <div
@@ -1,51 +1,81 @@
-import React, { useEffect, useState } from "react";
-import { message as antdMessage } from "antd";
+import React, { useEffect } from "react";
+import { useAppContext } from "../contexts/AppContext";
 import { migrationTool } from "../utils/migrationTool";
 import logger from "../utils/logger";
 
+// 迁移进度提示的 key，进度更新时替换同一条提示
+const MESSAGE_KEY = "storage-migration";
+
 /**
  * StorageMigrator 组件
- * 负责在应用启动时自动迁移 localStorage 数据到 IndexedDB
+ * 负责在应用启动时按版本顺序执行尚未完成的本地数据迁移，预演确认有待处理的项时提示进度
  */
 const StorageMigrator: React.FC = () => {
-  const [migrated, setMigrated] = useState(false);
+  const { message } = useAppContext();
 
   useEffect(() => {
-    const performMigration = async () => {
-      // 检查是否已经迁移过
-      if (migrationTool.isMigrationCompleted()) {
-        logger.log("数据迁移已完成，跳过");
-        setMigrated(true);
-        return;
-      }
+    if (migrationTool.getPendingSteps().length === 0) {
+      logger.log("本地数据已是最新版本，跳过迁移");
+      return;
+    }
 
+    const performMigration = async () => {
       try {
-        logger.log("开始自动迁移 localStorage 到 IndexedDB...");
-        const stats = await migrationTool.migrate();
+        // 先预演统计待处理的项：没有需要复制或清理的项时只更新数据版本，不打扰用户
+        const preview = await migrationTool.migrate({ dryRun: true });
+        const shown = preview.steps.some((step) => step.stats.migrated > 0);
 
-        if (stats.migrated > 0) {
-          antdMessage.success(
-            `成功迁移 ${stats.migrated} 个缓存项到 IndexedDB`,
-            3,
-          );
-          logger.log("迁移统计:", stats);
-        }
+        const report = await migrationTool.migrate({
+          onProgress: ({ step, index, count, done, total }) => {
+            if (!shown || total === 0) return;
+            message.open({
+              key: MESSAGE_KEY,
+              type: "loading",
+              content: `正在升级本地数据 (${index}/${count}) ${step.name}: ${done}/${total}`,
+              duration: 0,
+            });
+          },
+        });
 
-        if (stats.failed > 0) {
-          logger.warn(`迁移失败项数: ${stats.failed}`, stats.errors);
+        const failed = report.steps.reduce(
+          (sum, step) => sum + step.stats.failed,
+          0,
+        );
+        if (failed > 0) {
+          logger.warn(
+            `迁移失败项数: ${failed}`,
+            report.steps.flatMap((step) => step.stats.errors),
+          );
+          message.open({
+            key: MESSAGE_KEY,
+            type: "warning",
+            content: `本地数据升级未完成，${failed} 项失败，将在下次打开页面时重试`,
+            duration: 5,
+          });
+        } else if (shown) {
+          message.open({
+            key: MESSAGE_KEY,
+            type: "success",
+            content: `本地数据升级完成：${report.steps
+              .map((step) => `${step.name} ${step.stats.migrated} 项`)
+              .join("，")}`,
+            duration: 3,
+          });
         }
-
-        setMigrated(true);
       } catch (error) {
         logger.error("迁移过程出错:", error);
-        antdMessage.error("数据迁移失败，将继续使用 localStorage");
+        message.open({
+          key: MESSAGE_KEY,
+          type: "error",
+          content: "数据迁移失败，将继续使用 localStorage",
+        });
       }
     };
 
     performMigration();
   }, []);
 
-  // 不渲染任何 UI，纯后台迁移
+  // 不渲染任何 UI，进度通过全局提示展示
   return null;
 };
 
@@ -0,0 +1,14 @@
+import React from "react";
+import { iterateWhispers } from "../services/biliApi";
+import { batchUnquietFollow } from "../services/relationBatch";
+import SelfRelationList from "./shared/SelfRelationList";
+
+const WhispersList: React.FC = () => (
+  <SelfRelationList
+    title="悄悄关注"
+    loadPages={iterateWhispers}
+    removeAction={{ label: "取消悄悄关注", run: batchUnquietFollow }}
+  />
+);
+
+export default WhispersList;
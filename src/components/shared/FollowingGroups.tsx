@@ -0,0 +1,156 @@
+/**
+ * 关注分组的共享逻辑：加载分组、分组配色和图例
+ */
+import React, { useEffect, useMemo, useState } from "react";
+import { RelationTag } from "../../types/bilibili";
+import { getRelationTags } from "../../services/biliApi";
+import { describeApiError } from "../../services/errors";
+import logger from "../../utils/logger";
+
+// 默认分组（tagid 0）的成员没有分组标记，不参与配色
+const DEFAULT_TAG_ID = 0;
+
+const GROUP_PALETTE = [
+  "#ff6b6b",
+  "#ffd93d",
+  "#6bcb77",
+  "#4d96ff",
+  "#c77dff",
+  "#ff9f1c",
+  "#2ec4b6",
+  "#f15bb5",
+  "#9b5de5",
+  "#00bbf9",
+  "#fee440",
+  "#adb5bd",
+];
+
+/**
+ * 加载当前用户的关注分组
+ * @param enabled 为 false 时不发起请求
+ */
+export const useFollowingGroups = (enabled: boolean = true) => {
+  const [groups, setGroups] = useState<RelationTag[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    if (!enabled) return;
+    const controller = new AbortController();
+
+    setLoading(true);
+    getRelationTags({ priority: "interactive", signal: controller.signal })
+      .then((response) => {
+        setGroups(response.data);
+        setError(undefined);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        logger.error("加载关注分组失败:", err);
+        setError(describeApiError(err));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [enabled]);
+
+  return { groups, loading, error };
+};
+
+/**
+ * 为分组分配颜色（按分组顺序取色板，保持插入顺序）
+ */
+export const useGroupColors = (groups: RelationTag[]): Map<number, string> =>
+  useMemo(() => {
+    const colors = new Map<number, string>();
+    groups
+      .filter((group) => group.tagid !== DEFAULT_TAG_ID)
+      .forEach((group, index) => {
+        colors.set(group.tagid, GROUP_PALETTE[index % GROUP_PALETTE.length]);
+      });
+    return colors;
+  }, [groups]);
+
+/**
+ * 获取用户所在分组的颜色；属于多个分组时取分组列表中靠前的一个
+ */
+export const getGroupColor = (
+  tags: number[] | null | undefined,
+  groupColors: Map<number, string>,
+): string | undefined => {
+  if (!tags || tags.length === 0) return undefined;
+  for (const [tagid, color] of groupColors) {
+    if (tags.includes(tagid)) return color;
+  }
+  return undefined;
+};
+
+interface GroupLegendProps {
+  groups: RelationTag[];
+  groupColors: Map<number, string>;
+  /** 未分组及非关注用户的颜色 */
+  fallbackColor: string;
+}
+
+/**
+ * 分组图例，叠加在图形左下角
+ */
+export const GroupLegend: React.FC<GroupLegendProps> = ({
+  groups,
+  groupColors,
+  fallbackColor,
+}) => {
+  const entries = groups
+    .filter((group) => groupColors.has(group.tagid))
+    .map((group) => ({
+      key: group.tagid,
+      label: `${group.name} (${group.count})`,
+      color: groupColors.get(group.tagid)!,
+    }));
+  entries.push({
+    key: DEFAULT_TAG_ID,
+    label: "未分组 / 其他",
+    color: fallbackColor,
+  });
+
+  return (
+    <div
+      style={{
+        position: "absolute",
+        left: 8,
+        bottom: 8,
+        maxHeight: "50%",
+        overflowY: "auto",
+        padding: "6px 10px",
+        borderRadius: 6,
+        background: "rgba(0, 0, 0, 0.6)",
+        color: "#fff",
+        fontSize: 12,
+        pointerEvents: "auto",
+      }}
+    >
+      {entries.map((entry) => (
+        <div
+          key={entry.key}
+          style={{ display: "flex", alignItems: "center", gap: 6 }}
+        >
+          <span
+            style={{
+              width: 10,
+              height: 10,
+              borderRadius: "50%",
+              background: entry.color,
+              flexShrink: 0,
+            }}
+          />
+          {entry.label}
+        </div>
+      ))}
+      <div style={{ color: "rgba(255,255,255,0.6)", marginTop: 4 }}>
+        属于多个分组时取靠前的分组
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+/**
+ * 仅本人可见的关系列表（悄悄关注、黑名单）的共享表格
+ * 列表通常较短，一次加载全部分页后在本地搜索和分页
+ */
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Button, Input, Space, Spin, Table, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { FansItem } from "../../types/bilibili";
+import type {
+  CacheMode,
+  RelationPage,
+  RequestOptions,
+} from "../../services/biliApi";
+import type {
+  BatchOptions,
+  BatchResult,
+  BatchTarget,
+} from "../../services/relationBatch";
+import { RequestCancelledError, describeApiError } from "../../services/errors";
+import { useAppContext } from "../../contexts/AppContext";
+import { getBaseUserColumns } from "./UserTableColumns";
+
+const { Text } = Typography;
+
+interface BulkRemoveAction {
+  /** 按钮和确认框中的操作名，如「移出黑名单」 */
+  label: string;
+  run: (targets: BatchTarget[], options: BatchOptions) => Promise<BatchResult>;
+}
+
+interface SelfRelationListProps {
+  loadPages: (
+    options: RequestOptions,
+  ) => AsyncGenerator<RelationPage, void, undefined>;
+  /** 列表名称，用于提示文案，如「黑名单」 */
+  title: string;
+  /** 提供时可勾选用户批量移出 */
+  removeAction?: BulkRemoveAction;
+}
+
+/**
+ * 按昵称、签名或 UID 过滤
+ */
+const matchesKeyword = (item: FansItem, keyword: string): boolean =>
+  item.uname.toLowerCase().includes(keyword) ||
+  item.sign.toLowerCase().includes(keyword) ||
+  String(item.mid) === keyword;
+
+const SelfRelationList: React.FC<SelfRelationListProps> = ({
+  loadPages,
+  title,
+  removeAction,
+}) => {
+  const { message, modal } = useAppContext();
+  const [loading, setLoading] = useState(false);
+  const [list, setList] = useState<FansItem[]>([]);
+  const [keyword, setKeyword] = useState("");
+  const [selectedMids, setSelectedMids] = useState<number[]>([]);
+  const [removing, setRemoving] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  // 重新加载或卸载时中止进行中的请求
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadList = async (cache: CacheMode = "default") => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    try {
+      const items: FansItem[] = [];
+      for await (const page of loadPages({
+        signal: controller.signal,
+        cache,
+      })) {
+        items.push(...page.list);
+        setList([...items]);
+        if (page.truncated) {
+          message.warning(
+            `${title}未能完整获取 (${page.fetched}/${page.total})`,
+          );
+        }
+      }
+      setList(items);
+    } catch (error) {
+      if (error instanceof RequestCancelledError) return;
+      message.error(describeApiError(error));
+    } finally {
+      if (abortRef.current === controller) {
+        setLoading(false);
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadList();
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const filteredList = useMemo(() => {
+    const normalized = keyword.trim().toLowerCase();
+    return normalized
+      ? list.filter((item) => matchesKeyword(item, normalized))
+      : list;
+  }, [list, keyword]);
+
+  const confirmRemove = (targets: BatchTarget[]): Promise<boolean> =>
+    new Promise((resolve) => {
+      modal.confirm({
+        title: `确认${removeAction!.label}？`,
+        content: `将对 ${targets.length} 个用户执行「${removeAction!.label}」，此操作会立即生效。`,
+        okButtonProps: { danger: true },
+        onOk: () => resolve(true),
+        onCancel: () => resolve(false),
+      });
+    });
+
+  const handleRemove = async () => {
+    if (!removeAction) return;
+    const targets = list
+      .filter((item) => selectedMids.includes(item.mid))
+      .map((item) => ({ mid: item.mid, uname: item.uname }));
+
+    setRemoving(true);
+    setProgress({ done: 0, total: targets.length });
+    try {
+      const result = await removeAction.run(targets, {
+        confirm: ({ targets }) => confirmRemove(targets),
+        onProgress: (done, total) => setProgress({ done, total }),
+        signal: abortRef.current?.signal,
+      });
+      if (!result.confirmed) return;
+
+      const removed = new Set(result.succeeded);
+      setList((prev) => prev.filter((item) => !removed.has(item.mid)));
+      setSelectedMids((prev) => prev.filter((mid) => !removed.has(mid)));
+
+      if (result.stoppedReason) {
+        message.warning(
+          `${removeAction.label}已停止: ${result.stoppedReason}（成功 ${result.succeeded.length} 人）`,
+        );
+      } else if (result.failed.length > 0) {
+        message.warning(
+          `${removeAction.label}完成: 成功 ${result.succeeded.length} 人，失败 ${result.failed.length} 人`,
+        );
+      } else {
+        message.success(
+          `已${removeAction.label} ${result.succeeded.length} 人`,
+        );
+      }
+    } finally {
+      setRemoving(false);
+    }
+  };
+
+  const columns: ColumnsType<FansItem> = getBaseUserColumns();
+
+  return (
+    <div style={{ height: "100%", display: "flex", flexDirection: "column" }}>
+      <Space style={{ padding: "8px 0", flexShrink: 0 }} wrap>
+        <Input.Search
+          style={{ width: 240 }}
+          placeholder="搜索昵称、签名或 UID"
+          allowClear
+          value={keyword}
+          onChange={(e) => setKeyword(e.target.value)}
+        />
+        {removeAction && (
+          <Button
+            danger
+            disabled={selectedMids.length === 0 || loading}
+            loading={removing}
+            onClick={handleRemove}
+          >
+            {removing
+              ? `${removeAction.label}中 ${progress.done}/${progress.total}`
+              : `${removeAction.label} (${selectedMids.length})`}
+          </Button>
+        )}
+        <Button
+          onClick={() => loadList("reload")}
+          disabled={loading || removing}
+        >
+          刷新
+        </Button>
+        {keyword && (
+          <Text type="secondary">
+            匹配 {filteredList.length} / {list.length}
+          </Text>
+        )}
+      </Space>
+      <Spin spinning={loading} style={{ flex: 1, overflow: "hidden" }}>
+        <Table
+          columns={columns}
+          dataSource={filteredList}
+          rowKey="mid"
+          scroll={{ y: "calc(100vh - 200px)" }}
+          rowSelection={
+            removeAction
+              ? {
+                  selectedRowKeys: selectedMids,
+                  onChange: (keys) => setSelectedMids(keys as number[]),
+                  preserveSelectedRowKeys: true,
+                }
+              : undefined
+          }
+          pagination={{
+            pageSize: 20,
+            showTotal: (total) => `共 ${total} 人`,
+            showSizeChanger: false,
+          }}
+          locale={{ emptyText: `${title}为空` }}
+        />
+      </Spin>
+    </div>
+  );
+};
+
+export default SelfRelationList;
@@ -0,0 +1,135 @@
+/**
+ * 用户资料补全的共享逻辑：订阅资料存储、资料列、节点大小和悬停提示
+ */
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { Space, Tag, Typography } from "antd";
+import type { ColumnsType } from "antd/es/table";
+import { FansItem, RelationInfo } from "../../types/bilibili";
+import { UserProfile, profileStore } from "../../services/profileStore";
+import {
+  escapeHtml,
+  formatCount,
+  getRelationInfo,
+} from "../../utils/formatters";
+
+const { Text } = Typography;
+
+/**
+ * 补全指定用户的资料并订阅更新
+ * @param enabled 为 false 时不补全，但仍返回已有资料
+ */
+export const useUserProfiles = (
+  mids: number[],
+  enabled: boolean = true,
+): ReadonlyMap<number, UserProfile> => {
+  const [profiles, setProfiles] = useState<ReadonlyMap<number, UserProfile>>(
+    () => new Map(),
+  );
+
+  useEffect(() => profileStore.subscribe(setProfiles), []);
+
+  // 以 mid 列表内容作为依赖，避免调用方每次渲染传入新数组时重复入队
+  const midsKey = mids.join(",");
+  useEffect(() => {
+    if (!enabled || mids.length === 0) return;
+    // 卸载或列表变化时移除尚未开始的补全
+    return profileStore.enqueue(mids);
+  }, [enabled, midsKey]);
+
+  return profiles;
+};
+
+/**
+ * 资料列：等级、粉丝数/关注数、认证说明
+ */
+export const getProfileColumn = (
+  profiles: ReadonlyMap<number, UserProfile>,
+): ColumnsType<FansItem>[number] => ({
+  title: "资料",
+  key: "profile",
+  width: 180,
+  render: (_, record) => {
+    const profile = profiles.get(record.mid);
+    // 补全中或补全失败
+    if (!profile) return <Text type="secondary">-</Text>;
+    return (
+      <Space direction="vertical" size={0}>
+        <Space size={4}>
+          {profile.level !== undefined && (
+            <Tag color="orange">Lv{profile.level}</Tag>
+          )}
+          <Text type="secondary">
+            粉丝 {formatCount(profile.follower)} · 关注{" "}
+            {formatCount(profile.following)}
+          </Text>
+        </Space>
+        {profile.officialTitle && (
+          <Text type="secondary" ellipsis style={{ maxWidth: 170 }}>
+            {profile.officialTitle}
+          </Text>
+        )}
+      </Space>
+    );
+  },
+});
+
+/**
+ * 按粉丝数计算节点大小（force-graph 的 nodeVal，半径与其平方根成正比）
+ * 粉丝数跨越多个数量级，取对数避免大 UP 主的节点占满画面
+ */
+export const getProfileNodeVal = (profile: UserProfile | undefined): number =>
+  profile ? 1 + Math.log10(profile.follower + 1) : 1;
+
+/**
+ * 节点悬停提示（force-graph 的 nodeLabel 以 HTML 渲染）
+ * @param relation 我与该用户的关系，尚未查询时省略
+ */
+export const getUserNodeLabel = (
+  name: string,
+  profile: UserProfile | undefined,
+  relation?: RelationInfo,
+): string => {
+  const lines = [
+    `<b>${escapeHtml(name)}</b>${profile?.level !== undefined ? ` Lv${profile.level}` : ""}`,
+  ];
+  if (relation) {
+    lines.push(`关系: ${getRelationInfo(relation.attribute).text}`);
+  }
+  if (profile) {
+    lines.push(
+      `粉丝 ${formatCount(profile.follower)} · 关注 ${formatCount(profile.following)}`,
+    );
+    if (profile.officialTitle) lines.push(escapeHtml(profile.officialTitle));
+  }
+  return lines.join("<br/>");
+};
+
+/**
+ * 可原地更新的节点悬停提示
+ * force-graph 只在悬停对象变化时读取 nodeLabel，返回同一个元素并在 render 变化时重写其内容，
+ * 悬停期间到达的资料和关系无需再次悬停即可显示
+ * @param render 生成节点提示的 HTML，依赖的数据变化时传入新函数
+ * @returns 传给 nodeLabel 的函数（引用不变）
+ */
+export const useLiveNodeLabel = <N,>(
+  render: (node: N) => string,
+): ((node: N) => HTMLElement) => {
+  const elementRef = useRef<HTMLElement | null>(null);
+  // 最近一次生成提示的节点
+  const nodeRef = useRef<N | null>(null);
+  const renderRef = useRef(render);
+  renderRef.current = render;
+
+  useEffect(() => {
+    if (elementRef.current && nodeRef.current !== null) {
+      elementRef.current.innerHTML = render(nodeRef.current);
+    }
+  }, [render]);
+
+  return useCallback((node: N) => {
+    elementRef.current ??= document.createElement("div");
+    nodeRef.current = node;
+    elementRef.current.innerHTML = renderRef.current(node);
+    return elementRef.current;
+  }, []);
+};
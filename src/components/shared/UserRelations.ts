@@ -0,0 +1,102 @@
+/**
+ * 批量查询我与任意用户关系的共享逻辑
+ */
+import { useCallback, useEffect, useRef, useState } from "react";
+import { RelationInfo } from "../../types/bilibili";
+import { getRelationsBatch } from "../../services/biliApi";
+import type { RequestPriority } from "../../services/scheduler";
+import { RequestCancelledError } from "../../services/errors";
+import { accountScope } from "../../utils/accountScope";
+import logger from "../../utils/logger";
+
+// 悬停停留该时长后才查询，鼠标划过的节点不发起请求
+const HOVER_DELAY_MS = 300;
+
+/**
+ * 查询我与指定用户的关系，列表增长时只查询新增的用户
+ * 切换账号后丢弃已有结果，按新账号重新查询
+ * @param priority 请求优先级，默认后台优先级
+ */
+export const useUserRelations = (
+  mids: number[],
+  priority: RequestPriority = "background",
+): ReadonlyMap<number, RelationInfo> => {
+  const [relations, setRelations] = useState<ReadonlyMap<number, RelationInfo>>(
+    () => new Map(),
+  );
+  // 查询结果所属的账号，变化时重新查询
+  const [activeMid, setActiveMid] = useState(() => accountScope.getActiveMid());
+  const activeMidRef = useRef(activeMid);
+  // 已查询或查询中的用户，避免列表频繁变化时重复请求
+  const requestedRef = useRef(new Set<number>());
+  // 仅在卸载或切换账号时中止：加载过程中列表持续增长，逐次中止会让请求反复重来
+  const abortRef = useRef(new AbortController());
+
+  useEffect(() => () => abortRef.current.abort(), []);
+
+  useEffect(
+    () =>
+      accountScope.subscribe(() => {
+        // 账号列表变化也会通知，只在使用的账号变化时重置
+        const mid = accountScope.getActiveMid();
+        if (mid === activeMidRef.current) return;
+        activeMidRef.current = mid;
+        abortRef.current.abort();
+        abortRef.current = new AbortController();
+        requestedRef.current = new Set();
+        setRelations(new Map());
+        setActiveMid(mid);
+      }),
+    [],
+  );
+
+  // 以 mid 列表内容作为依赖，避免调用方每次渲染传入新数组时重复查询
+  const midsKey = mids.join(",");
+  useEffect(() => {
+    const pending = mids.filter((mid) => !requestedRef.current.has(mid));
+    if (pending.length === 0) return;
+    const requested = requestedRef.current;
+    pending.forEach((mid) => requested.add(mid));
+
+    getRelationsBatch(pending, {
+      priority,
+      signal: abortRef.current.signal,
+    })
+      .then((result) => setRelations((prev) => new Map([...prev, ...result])))
+      .catch((error) => {
+        if (error instanceof RequestCancelledError) return;
+        // 失败的用户允许下次列表变化时重新查询
+        pending.forEach((mid) => requested.delete(mid));
+        logger.warn("批量查询关系失败:", error);
+      });
+  }, [midsKey, priority, activeMid]);
+
+  return relations;
+};
+
+/**
+ * 关系图中只查询悬停过的节点：关系只在悬停标签中展示，不为图中所有节点排队请求
+ * 查询完成后由 useLiveNodeLabel 更新仍在显示的标签
+ * @returns 已查询到的关系，以及传给 onNodeHover 的回调
+ */
+export const useHoveredUserRelations = (): [
+  ReadonlyMap<number, RelationInfo>,
+  (mid: number | null) => void,
+] => {
+  const [hoveredMid, setHoveredMid] = useState<number | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  useEffect(() => () => clearTimeout(timerRef.current), []);
+
+  const handleHover = useCallback((mid: number | null) => {
+    clearTimeout(timerRef.current);
+    if (mid === null) return;
+    timerRef.current = setTimeout(() => setHoveredMid(mid), HOVER_DELAY_MS);
+  }, []);
+
+  const relations = useUserRelations(
+    hoveredMid === null ? [] : [hoveredMid],
+    "normal",
+  );
+  return [relations, handleHover];
+};
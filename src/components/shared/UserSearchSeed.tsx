@@ -0,0 +1,151 @@
+/**
+ * 图工具栏中的用户搜索框：搜索任意 B 站用户并作为新节点加入图中
+ */
+import React, { useEffect, useRef, useState } from "react";
+import { Avatar, Checkbox, Select, Space, Spin, Typography } from "antd";
+import { UserOutlined } from "@ant-design/icons";
+import { SearchedUser, getUserCard, searchUsers } from "../../services/biliApi";
+import { RequestCancelledError, describeApiError } from "../../services/errors";
+import { useAppContext } from "../../contexts/AppContext";
+import { formatCount } from "../../utils/formatters";
+
+const { Text } = Typography;
+
+// 输入停顿后再搜索，避免逐字请求
+const SEARCH_DEBOUNCE_MS = 400;
+
+/**
+ * 纯数字输入按 UID 查询名片，找不到时返回 null
+ */
+const lookupByUid = async (
+  keyword: string,
+  signal: AbortSignal,
+): Promise<SearchedUser | null> => {
+  if (!/^\d+$/.test(keyword)) return null;
+  try {
+    const { card } = (
+      await getUserCard(Number(keyword), { priority: "interactive", signal })
+    ).data;
+    return {
+      mid: Number(card.mid),
+      uname: card.name,
+      face: card.face,
+      sign: card.sign,
+      fans: card.fans,
+      level: card.level_info.current_level,
+    };
+  } catch (error) {
+    if (error instanceof RequestCancelledError) throw error;
+    return null;
+  }
+};
+
+interface UserSearchSeedProps {
+  /**
+   * 选中用户时调用
+   * @param explore 是否在加入后立即探索该用户
+   */
+  onAdd: (user: SearchedUser, explore: boolean) => void;
+  /** 「添加后探索」选项的说明 */
+  exploreLabel?: string;
+  disabled?: boolean;
+}
+
+const UserSearchSeed: React.FC<UserSearchSeedProps> = ({
+  onAdd,
+  exploreLabel = "添加后探索",
+  disabled,
+}) => {
+  const { message } = useAppContext();
+  const [keyword, setKeyword] = useState("");
+  const [users, setUsers] = useState<SearchedUser[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [explore, setExplore] = useState(true);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const trimmed = keyword.trim();
+    if (!trimmed) {
+      setUsers([]);
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const { signal } = controller;
+
+      setSearching(true);
+      try {
+        const [byUid, page] = await Promise.all([
+          lookupByUid(trimmed, signal),
+          searchUsers(
+            { keyword: trimmed },
+            { priority: "interactive", signal },
+          ),
+        ]);
+        const results = page.users.filter((user) => user.mid !== byUid?.mid);
+        setUsers(byUid ? [byUid, ...results] : results);
+      } catch (error) {
+        if (error instanceof RequestCancelledError) return;
+        message.error(`搜索用户失败: ${describeApiError(error)}`);
+      } finally {
+        if (abortRef.current === controller) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [keyword]);
+
+  // 卸载时中止进行中的搜索
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleSelect = (mid: number) => {
+    const user = users.find((item) => item.mid === mid);
+    if (!user) return;
+    onAdd(user, explore);
+    setKeyword("");
+    setUsers([]);
+  };
+
+  return (
+    <Space style={{ flexShrink: 0 }}>
+      <Select<number>
+        showSearch
+        size="large"
+        style={{ width: 240 }}
+        placeholder="搜索 B 站用户并加入图中"
+        value={null}
+        searchValue={keyword}
+        onSearch={setKeyword}
+        onSelect={handleSelect}
+        filterOption={false}
+        disabled={disabled}
+        notFoundContent={
+          searching ? <Spin size="small" /> : keyword.trim() ? "无结果" : null
+        }
+        options={users.map((user) => ({
+          value: user.mid,
+          label: (
+            <Space>
+              <Avatar src={user.face} size={24} icon={<UserOutlined />} />
+              <span>{user.uname}</span>
+              <Text type="secondary" style={{ fontSize: 12 }}>
+                Lv{user.level} · 粉丝 {formatCount(user.fans)}
+              </Text>
+            </Space>
+          ),
+        }))}
+      />
+      <Checkbox
+        checked={explore}
+        onChange={(e) => setExplore(e.target.checked)}
+      >
+        {exploreLabel}
+      </Checkbox>
+    </Space>
+  );
+};
+
+export default UserSearchSeed;
@@ -34,6 +34,14 @@ export const getVipTag = (vip: FansItem["vip"]): React.ReactNode => {
     );
 };
 
+/**
+ * 获取关系标签
+ */
+export const getRelationTag = (attribute: number): React.ReactNode => {
+    const relation = getRelationInfo(attribute);
+    return <Tag color={relation.color}>{relation.text}</Tag>;
+};
+
 /**
  * 用户头像列配置
  */
@@ -112,10 +120,7 @@ export const relationColumn: ColumnsType<FansItem>[number] = {
     dataIndex: "attribute",
     key: "attribute",
     width: 100,
-    render: (attribute: number) => {
-        const relation = getRelationInfo(attribute);
-        return <Tag color={relation.color}>{relation.text}</Tag>;
-    },
+    render: (attribute: number) => getRelationTag(attribute),
 };
 
 /**
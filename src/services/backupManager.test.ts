@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupFormatError,
+  backupManager,
+} from "./backupManager";
+
+const validBackup = () => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: 1700000000000,
+  dbVersion: 3,
+  indexedDB: {
+    cache: [{ key: "u1_api_/x/a", item: { data: { ok: 1 }, expiry: 1 } }],
+    users: [{ mid: 1, name: "a", face: "", updatedAt: 1 }],
+    edges: [
+      {
+        id: "follow:1-2",
+        source: 1,
+        target: 2,
+        type: "follow",
+        provenance: "followings",
+        observedAt: 1,
+      },
+    ],
+    crawlState: [
+      {
+        key: "fans:1",
+        mid: 1,
+        kind: "fans",
+        status: "complete",
+        fetched: 0,
+        total: 0,
+        updatedAt: 1,
+      },
+    ],
+  },
+  localStorage: { bilibili_helper_accounts: "[]" },
+});
+
+const read = (value: unknown) =>
+  backupManager.readFile(new Blob([JSON.stringify(value)]));
+
+describe("backupManager.readFile", () => {
+  it("接受格式正确的备份", async () => {
+    await expect(read(validBackup())).resolves.toEqual(validBackup());
+  });
+
+  it("拒绝不是本脚本导出的文件", async () => {
+    await expect(read({ hello: "world" })).rejects.toBeInstanceOf(
+      BackupFormatError,
+    );
+    await expect(
+      backupManager.readFile(new Blob(["not json"])),
+    ).rejects.toBeInstanceOf(BackupFormatError);
+  });
+
+  it("拒绝更新版本的备份", async () => {
+    await expect(
+      read({ ...validBackup(), dbVersion: 99 }),
+    ).rejects.toBeInstanceOf(BackupFormatError);
+  });
+
+  it("逐项校验各存储的字段", async () => {
+    const backup = validBackup();
+    backup.indexedDB.edges[0].provenance = "unknown";
+    await expect(read(backup)).rejects.toThrow("edges 第 1 项格式错误");
+
+    const badState = validBackup();
+    badState.indexedDB.crawlState[0].status = "done";
+    await expect(read(badState)).rejects.toThrow("crawlState 第 1 项格式错误");
+  });
+
+  it("拒绝非字符串的 localStorage 值", async () => {
+    await expect(
+      read({ ...validBackup(), localStorage: { key: 1 } }),
+    ).rejects.toBeInstanceOf(BackupFormatError);
+  });
+});
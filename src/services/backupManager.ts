@@ -0,0 +1,307 @@
+/**
+ * 本地数据备份与恢复
+ * - 导出 IndexedDB 的全部存储（缓存、用户、关系、抓取进度）和本脚本写入的 localStorage 键值
+ * - 备份文件为带格式版本号的 JSON，可选 gzip 压缩，导入时按文件头自动识别
+ * - 导入前校验文件，可与本地数据合并，或清空本地数据后替换
+ */
+
+import { DB_VERSION } from "../utils/bilibiliDB";
+import { cacheManager } from "../utils/cacheManager";
+import { CacheEntryDump, indexedDBManager } from "../utils/indexedDBManager";
+import logger from "../utils/logger";
+import {
+  CrawlState,
+  GraphStoreDump,
+  StoredEdge,
+  StoredUser,
+  graphStore,
+} from "./graphStore";
+
+// ================== 类型定义 ==================
+
+export const BACKUP_FORMAT = "bilibili-helper-backup";
+/** 备份文件格式版本，结构不兼容时递增 */
+export const BACKUP_VERSION = 1;
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  /** 导出时的数据库版本 */
+  dbVersion: number;
+  indexedDB: GraphStoreDump & { cache: CacheEntryDump[] };
+  /** 本脚本写入的 localStorage 键值（缓存条目、账号列表、数据版本） */
+  localStorage: Record<string, string>;
+}
+
+/** merge: 与本地数据合并，同一条目保留更新的一份；replace: 清空本地数据后导入 */
+export type RestoreMode = "merge" | "replace";
+
+/** 导入时各存储写入的记录数 */
+export interface RestoreStats {
+  cache: number;
+  users: number;
+  edges: number;
+  crawlState: number;
+  localStorage: number;
+  /** 因空间不足等原因写入失败的 localStorage 键数 */
+  failed: number;
+}
+
+/**
+ * 备份文件无法解析或不是本脚本导出的
+ */
+export class BackupFormatError extends Error {
+  constructor(reason: string) {
+    super(`备份文件无效: ${reason}`);
+    this.name = "BackupFormatError";
+  }
+}
+
+// ================== 校验 ==================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const EDGE_TYPES: readonly unknown[] = ["follow", "co_creation"];
+const EDGE_PROVENANCES: readonly unknown[] = [
+  "followings",
+  "fans",
+  "common_followings",
+  "video_staff",
+];
+const CRAWL_KINDS: readonly unknown[] = [
+  "followings",
+  "fans",
+  "common_followings",
+  "co_creation",
+];
+
+const isCacheEntry = (entry: unknown): entry is CacheEntryDump =>
+  isRecord(entry) &&
+  typeof entry.key === "string" &&
+  isRecord(entry.item) &&
+  typeof entry.item.expiry === "number" &&
+  "data" in entry.item &&
+  (entry.item.size === undefined || typeof entry.item.size === "number") &&
+  (entry.item.lastAccess === undefined ||
+    typeof entry.item.lastAccess === "number");
+
+const isStoredUser = (user: unknown): user is StoredUser =>
+  isRecord(user) &&
+  typeof user.mid === "number" &&
+  typeof user.name === "string" &&
+  typeof user.face === "string" &&
+  (user.sign === undefined || typeof user.sign === "string") &&
+  typeof user.updatedAt === "number";
+
+const isStoredEdge = (edge: unknown): edge is StoredEdge =>
+  isRecord(edge) &&
+  typeof edge.id === "string" &&
+  typeof edge.source === "number" &&
+  typeof edge.target === "number" &&
+  EDGE_TYPES.includes(edge.type) &&
+  EDGE_PROVENANCES.includes(edge.provenance) &&
+  typeof edge.observedAt === "number" &&
+  (edge.videos === undefined ||
+    (Array.isArray(edge.videos) &&
+      edge.videos.every(
+        (video) =>
+          isRecord(video) &&
+          typeof video.bvid === "string" &&
+          typeof video.title === "string",
+      ))) &&
+  (edge.viewers === undefined ||
+    (Array.isArray(edge.viewers) &&
+      edge.viewers.every((viewer) => typeof viewer === "number")));
+
+const isCrawlState = (state: unknown): state is CrawlState =>
+  isRecord(state) &&
+  typeof state.key === "string" &&
+  typeof state.mid === "number" &&
+  CRAWL_KINDS.includes(state.kind) &&
+  (state.status === "complete" || state.status === "partial") &&
+  typeof state.fetched === "number" &&
+  typeof state.total === "number" &&
+  typeof state.updatedAt === "number" &&
+  (state.viewer === undefined || typeof state.viewer === "number");
+
+/**
+ * 校验数组及其中每一项
+ * @throws BackupFormatError 不是数组或有无效项
+ */
+const assertArray = <T>(
+  value: unknown,
+  name: string,
+  isValid: (item: unknown) => item is T,
+): T[] => {
+  if (!Array.isArray(value)) {
+    throw new BackupFormatError(`${name} 不是数组`);
+  }
+  const invalid = value.findIndex((item) => !isValid(item));
+  if (invalid >= 0) {
+    throw new BackupFormatError(`${name} 第 ${invalid + 1} 项格式错误`);
+  }
+  return value;
+};
+
+/**
+ * 校验 localStorage 键值（值都是字符串）
+ * @throws BackupFormatError
+ */
+const assertStringRecord = (value: unknown): Record<string, string> => {
+  if (!isRecord(value)) {
+    throw new BackupFormatError("localStorage 数据格式错误");
+  }
+  const items: Record<string, string> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item !== "string") {
+      throw new BackupFormatError(`localStorage 键 ${key} 的值不是字符串`);
+    }
+    items[key] = item;
+  }
+  return items;
+};
+
+/**
+ * 校验备份文件结构
+ * @throws BackupFormatError
+ */
+const validateBackup = (value: unknown): BackupFile => {
+  if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+    throw new BackupFormatError("不是本脚本导出的备份");
+  }
+  const { version, dbVersion, exportedAt, indexedDB: stores } = value;
+  if (typeof version !== "number" || version > BACKUP_VERSION) {
+    throw new BackupFormatError(
+      `不支持的备份版本 ${String(version)}，请更新脚本后再导入`,
+    );
+  }
+  if (typeof dbVersion !== "number" || dbVersion > DB_VERSION) {
+    throw new BackupFormatError("备份来自更新版本的脚本，请更新脚本后再导入");
+  }
+  if (typeof exportedAt !== "number") {
+    throw new BackupFormatError("缺少导出时间");
+  }
+  if (!isRecord(stores)) {
+    throw new BackupFormatError("缺少 IndexedDB 数据");
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version,
+    exportedAt,
+    dbVersion,
+    indexedDB: {
+      cache: assertArray(stores.cache, "cache", isCacheEntry),
+      users: assertArray(stores.users, "users", isStoredUser),
+      edges: assertArray(stores.edges, "edges", isStoredEdge),
+      crawlState: assertArray(stores.crawlState, "crawlState", isCrawlState),
+    },
+    localStorage: assertStringRecord(value.localStorage),
+  };
+};
+
+// ================== 备份与恢复 ==================
+
+class BackupManager {
+  /**
+   * 浏览器是否支持 gzip 压缩（CompressionStream）
+   */
+  isCompressionSupported(): boolean {
+    return typeof CompressionStream !== "undefined";
+  }
+
+  /**
+   * 读取全部本地数据
+   */
+  async createBackup(): Promise<BackupFile> {
+    const [cache, graph] = await Promise.all([
+      indexedDBManager.exportEntries(),
+      graphStore.exportAll(),
+    ]);
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: Date.now(),
+      dbVersion: DB_VERSION,
+      indexedDB: { cache, ...graph },
+      localStorage: cacheManager.exportLocal(),
+    };
+  }
+
+  /**
+   * 导出为文件内容
+   * @param compress 是否 gzip 压缩
+   */
+  async exportBlob(compress: boolean): Promise<Blob> {
+    const json = new Blob([JSON.stringify(await this.createBackup())], {
+      type: "application/json",
+    });
+    if (!compress) return json;
+
+    const compressed = await new Response(
+      json.stream().pipeThrough(new CompressionStream("gzip")),
+    ).blob();
+    return new Blob([compressed], { type: "application/gzip" });
+  }
+
+  /**
+   * 读取并校验备份文件（自动识别 gzip 压缩）
+   * @throws BackupFormatError
+   */
+  async readFile(file: Blob): Promise<BackupFile> {
+    const header = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+    const gzipped = header[0] === 0x1f && header[1] === 0x8b;
+
+    let text: string;
+    try {
+      text = gzipped
+        ? await new Response(
+            file.stream().pipeThrough(new DecompressionStream("gzip")),
+          ).text()
+        : await file.text();
+    } catch (error) {
+      logger.warn("读取备份文件失败:", error);
+      throw new BackupFormatError(gzipped ? "解压失败" : "无法读取文件");
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new BackupFormatError("不是有效的 JSON");
+    }
+    return validateBackup(parsed);
+  }
+
+  /**
+   * 导入备份
+   */
+  async restore(backup: BackupFile, mode: RestoreMode): Promise<RestoreStats> {
+    const overwrite = mode === "replace";
+    if (overwrite) {
+      await cacheManager.clearAsync();
+      await graphStore.clear();
+    }
+
+    const cache = await indexedDBManager.importEntries(
+      backup.indexedDB.cache,
+      overwrite,
+    );
+    const graph = await graphStore.importAll(backup.indexedDB, overwrite);
+    const local = cacheManager.importLocal(backup.localStorage, overwrite);
+
+    const stats: RestoreStats = {
+      cache,
+      ...graph,
+      localStorage: local.written,
+      failed: local.failed,
+    };
+    logger.log(`已导入备份 (${mode}):`, stats);
+    return stats;
+  }
+}
+
+// 导出单例
+export const backupManager = new BackupManager();
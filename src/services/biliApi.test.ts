@@ -0,0 +1,416 @@
+// @vitest-environment happy-dom
+import "fake-indexeddb/auto";
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { accountScope } from "../utils/accountScope";
+import { md5 } from "../utils/md5";
+import {
+  RelationPage,
+  getCommonFollowings,
+  getFansList,
+  getCurrentUserMidFromAPI,
+  getFollowingsList,
+  getRelationsBatch,
+  iterateFans,
+  iterateFollowings,
+  refreshCacheEntry,
+  searchUsers,
+  setTransport,
+} from "./biliApi";
+import {
+  HttpError,
+  NotLoggedInError,
+  PrivacyRestrictedError,
+  UserNotFoundError,
+} from "./errors";
+import relationFixtures from "./fixtures/relations.json";
+import { graphStore } from "./graphStore";
+import { requestScheduler } from "./scheduler";
+import { requestTelemetry } from "./telemetry";
+import {
+  FixtureTransport,
+  RecordingTransport,
+  Transport,
+  fixtureKey,
+} from "./transport";
+import { WBI_CACHE_KEY } from "./wbi";
+
+// 不读写缓存，每次都经过传输层；5xx 不重试
+const OPTIONS = {
+  cache: "bypass",
+  retryConfig: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+} as const;
+
+let recorder: RecordingTransport;
+let previous: Transport;
+
+/** 本次测试实际发出的请求 */
+const requested = () => Object.keys(recorder.export()).sort();
+
+const collect = async (
+  pages: AsyncGenerator<RelationPage, void, undefined>,
+): Promise<RelationPage[]> => {
+  const result: RelationPage[] = [];
+  for await (const page of pages) result.push(page);
+  return result;
+};
+
+// 夹具不需要限速：每毫秒补充一个令牌，请求不再排队等待
+beforeAll(() => {
+  requestScheduler.updateConfig({ refillIntervalMs: 1 });
+});
+
+beforeEach(() => {
+  recorder = new RecordingTransport(new FixtureTransport(relationFixtures));
+  previous = setTransport(recorder);
+});
+
+afterEach(() => {
+  setTransport(previous);
+});
+
+describe("关系列表", () => {
+  it("按夹具返回关注列表和粉丝列表", async () => {
+    const followings = await getFollowingsList(
+      { vmid: 1001, ps: 2, pn: 1 },
+      OPTIONS,
+    );
+    expect(followings.data.list.map((item) => item.mid)).toEqual([2001, 2002]);
+    expect(followings.data.total).toBe(9);
+
+    const fans = await getFansList({ vmid: 1001, ps: 2, pn: 1 }, OPTIONS);
+    expect(fans.data.offset).toBe("3002_1700003002");
+  });
+
+  it("粉丝列表带上 offset 游标请求下一页", async () => {
+    const fans = await getFansList(
+      {
+        vmid: 1001,
+        ps: 2,
+        pn: 2,
+        offset: "3002_1700003002",
+      },
+      OPTIONS,
+    );
+
+    expect(fans.data.list.map((item) => item.mid)).toEqual([3003]);
+    expect(requested()).toEqual([
+      fixtureKey(
+        "GET",
+        "https://api.bilibili.com/x/relation/fans?vmid=1001&ps=2&pn=2&offset=3002_1700003002",
+      ),
+    ]);
+  });
+
+  it("获取共同关注", async () => {
+    const { response, fromCache } = await getCommonFollowings(
+      1001,
+      true,
+      OPTIONS,
+    );
+    expect(fromCache).toBe(false);
+    expect(response.data.list.map((item) => item.mid)).toEqual([2001, 2003]);
+  });
+});
+
+describe("批量关系查询", () => {
+  it("按用户记录缓存命中，缓存过的用户不再请求", async () => {
+    const fixtures = new FixtureTransport(relationFixtures);
+    fixtures.set(
+      "GET",
+      "https://api.bilibili.com/x/relation/relations?fids=5001,5002",
+      {
+        code: 0,
+        message: "0",
+        ttl: 1,
+        data: {
+          5001: { mid: 5001, attribute: 2, mtime: 0, tag: null, special: 0 },
+        },
+      },
+    );
+    setTransport(fixtures);
+    requestTelemetry.reset();
+
+    const first = await getRelationsBatch([5001, 5002]);
+    expect(first.get(5001)?.attribute).toBe(2);
+    expect(first.get(5002)?.attribute).toBe(0);
+
+    // 两个用户均已缓存，夹具中没有单独的请求也能返回
+    const second = await getRelationsBatch([5002, 5001]);
+    expect(second.get(5001)?.attribute).toBe(2);
+
+    const stats = requestTelemetry
+      .getSnapshot()
+      .endpoints.find((entry) => entry.endpoint === "/x/relation/relations");
+    expect(stats).toMatchObject({ attempts: 1, cacheMisses: 2, cacheHits: 2 });
+  });
+});
+
+describe("录制与回放", () => {
+  it("录制的响应可由 FixtureTransport 原样回放", async () => {
+    const live = await getFollowingsList({ vmid: 1001, ps: 2, pn: 2 }, OPTIONS);
+
+    setTransport(new FixtureTransport(recorder.export()));
+    const replayed = await getFollowingsList(
+      { vmid: 1001, ps: 2, pn: 2 },
+      OPTIONS,
+    );
+
+    expect(replayed).toEqual(live);
+  });
+});
+
+describe("分页遍历", () => {
+  it("粉丝列表按 offset 游标翻页，取完全部后结束", async () => {
+    const pages = await collect(iterateFans(1001, { ...OPTIONS, ps: 2 }));
+
+    expect(pages.map((page) => page.list.map((item) => item.mid))).toEqual([
+      [3001, 3002],
+      [3003],
+    ]);
+    expect(pages[1]).toMatchObject({ fetched: 3, total: 3, truncated: false });
+  });
+
+  it("完整抓取后记录到本地关系网络", async () => {
+    await collect(iterateFans(1001, { ...OPTIONS, ps: 2 }));
+
+    await vi.waitFor(async () => {
+      const state = await graphStore.getCrawlState("fans", 1001);
+      expect(state).toMatchObject({ status: "complete", fetched: 3 });
+    });
+    const followers = await graphStore.getFollowers(1001);
+    expect(followers.map((edge) => edge.source).sort()).toEqual([
+      3001, 3002, 3003,
+    ]);
+  });
+
+  it("超出服务器端分页上限（22007）时以空页结束并标记截断", async () => {
+    const pages = await collect(iterateFollowings(1001, { ...OPTIONS, ps: 2 }));
+
+    expect(pages).toHaveLength(3);
+    expect(pages[2]).toEqual({
+      list: [],
+      pn: 3,
+      total: 9,
+      fetched: 4,
+      truncated: true,
+    });
+    expect(pages.slice(0, 2).every((page) => !page.truncated)).toBe(true);
+  });
+
+  it("达到 maxPages 时停止请求并标记截断", async () => {
+    const pages = await collect(
+      iterateFollowings(1001, { ...OPTIONS, ps: 2, maxPages: 2 }),
+    );
+
+    expect(pages).toHaveLength(2);
+    expect(pages[1]).toMatchObject({ pn: 2, fetched: 4, truncated: true });
+    expect(requested()).toEqual([
+      "GET /x/relation/followings?pn=1&ps=2&vmid=1001",
+      "GET /x/relation/followings?pn=2&ps=2&vmid=1001",
+    ]);
+  });
+});
+
+describe("错误映射", () => {
+  it("22115 映射为 PrivacyRestrictedError", async () => {
+    await expect(
+      getFollowingsList({ vmid: 4001, ps: 2, pn: 1 }, OPTIONS),
+    ).rejects.toBeInstanceOf(PrivacyRestrictedError);
+  });
+
+  it("-404 映射为 UserNotFoundError", async () => {
+    await expect(
+      getFansList({ vmid: 4002, ps: 2, pn: 1 }, OPTIONS),
+    ).rejects.toBeInstanceOf(UserNotFoundError);
+  });
+
+  it("-101 映射为 NotLoggedInError", async () => {
+    await expect(
+      getCommonFollowings(4003, true, OPTIONS),
+    ).rejects.toBeInstanceOf(NotLoggedInError);
+  });
+
+  it("HTTP 5xx 映射为可重试的 HttpError", async () => {
+    const error = await getFollowingsList(
+      { vmid: 4004, ps: 2, pn: 1 },
+      OPTIONS,
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ status: 503, vmid: 4004, retryable: true });
+  });
+
+  it("夹具中没有的请求映射为 HttpError 并带上接口和 vmid", async () => {
+    const error = await getFollowingsList(
+      { vmid: 9999, ps: 2, pn: 1 },
+      OPTIONS,
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({
+      status: 404,
+      endpoint: "/x/relation/followings",
+      vmid: 9999,
+      retryable: false,
+    });
+  });
+});
+
+describe("切换账号", () => {
+  const commonKey = "GET /x/relation/followings/followed_upper?vmid=1001";
+  const common = JSON.parse(relationFixtures[commonKey].responseText);
+
+  /** vmid 1002 的共同关注只包含指定用户 */
+  const commonFollowingsOf = (mids: number[]) => ({
+    ...common,
+    data: {
+      ...common.data,
+      list: common.data.list.filter((item: { mid: number }) =>
+        mids.includes(item.mid),
+      ),
+      total: mids.length,
+    },
+  });
+
+  /** 以指定账号登录后请求共同关注，等待抓取进度写入 */
+  const crawlCommonAs = async (viewer: number, mids: number[]) => {
+    vi.spyOn(accountScope, "getLoggedInMid").mockReturnValue(viewer);
+    const fixtures = new FixtureTransport(relationFixtures);
+    fixtures.set(
+      "GET",
+      "https://api.bilibili.com/x/relation/followings/followed_upper?vmid=1002",
+      commonFollowingsOf(mids),
+    );
+    setTransport(fixtures);
+
+    await getCommonFollowings(1002, true, OPTIONS);
+    await vi.waitFor(async () => {
+      const state = await graphStore.getCrawlState(
+        "common_followings",
+        1002,
+        viewer,
+      );
+      expect(state).toMatchObject({ status: "complete", viewer });
+    });
+  };
+
+  const followingsOf1002 = async () =>
+    (await graphStore.getFollowings(1002)).map((edge) => edge.target).sort();
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("共同关注按登录账号记录，切换账号后不沿用也不删除前一账号的结果", async () => {
+    await crawlCommonAs(501, [2001, 2003]);
+    expect((await graphStore.getNetworkSnapshot(501)).freshCommon).toContain(
+      1002,
+    );
+
+    // 切换到账号 502：501 的共同关注不算新鲜，需要重新请求
+    vi.restoreAllMocks();
+    vi.spyOn(accountScope, "getLoggedInMid").mockReturnValue(502);
+    expect(
+      (await graphStore.getNetworkSnapshot(502)).freshCommon,
+    ).not.toContain(1002);
+
+    // 502 的完整抓取中没有 2003，但 501 观察到的关系保留
+    await crawlCommonAs(502, [2001]);
+    expect(await followingsOf1002()).toEqual([2001, 2003]);
+    expect(
+      await graphStore.getCrawlState("common_followings", 1002, 501),
+    ).toMatchObject({ viewer: 501 });
+
+    // 清除 501 的数据后只剩 502 观察到的关系
+    await graphStore.purgeAccount(501);
+    expect(await followingsOf1002()).toEqual([2001]);
+    expect(
+      await graphStore.getCrawlState("common_followings", 1002, 501),
+    ).toBeNull();
+  });
+});
+
+describe("WBI 签名", () => {
+  // 与 wbi.test.ts 相同的公开示例密钥
+  const MIXIN_KEY = "ea1db124af3c7062474693fa704f4ff8";
+  const WBI_IMG = {
+    img_url:
+      "https://i0.hdslb.com/bfs/wbi/7cd084941338484aae1ad9425b84077c.png",
+    sub_url:
+      "https://i0.hdslb.com/bfs/wbi/4932caff0ff746eab6f01bf08b70ac45.png",
+  };
+  const SEARCH_RESPONSE = {
+    code: 0,
+    message: "0",
+    ttl: 1,
+    data: { page: 1, numResults: 0, numPages: 0 },
+  };
+
+  /** 记录原始请求地址（夹具键会重新编码查询参数） */
+  const captureUrls = (fixtures: FixtureTransport): string[] => {
+    const urls: string[] = [];
+    setTransport({
+      name: "capture",
+      send: (req) => {
+        urls.push(req.url);
+        return fixtures.send(req);
+      },
+    });
+    return urls;
+  };
+
+  it("发送的查询字符串与签名时一致，空格编码为 %20", async () => {
+    const urls = captureUrls(
+      new FixtureTransport({
+        "GET /x/web-interface/nav": {
+          code: 0,
+          message: "0",
+          ttl: 1,
+          data: { isLogin: true, mid: 501, uname: "测试", wbi_img: WBI_IMG },
+        },
+        "GET /x/web-interface/wbi/search/type": SEARCH_RESPONSE,
+      }),
+    );
+    await refreshCacheEntry(WBI_CACHE_KEY);
+
+    await searchUsers({ keyword: "hello world" }, OPTIONS);
+
+    const query = urls
+      .find((url) => url.includes("/wbi/search/type"))!
+      .split("?")[1];
+    const [unsigned, wRid] = query.split("&w_rid=");
+    expect(unsigned).toMatch(
+      /^keyword=hello%20world&page=1&search_type=bili_user&wts=\d+$/,
+    );
+    expect(wRid).toBe(md5(unsigned + MIXIN_KEY));
+  });
+
+  it("未登录时 nav 返回 -101 仍可获取密钥，登录状态按未登录处理", async () => {
+    const urls = captureUrls(
+      new FixtureTransport({
+        "GET /x/web-interface/nav": {
+          code: -101,
+          message: "账号未登录",
+          ttl: 1,
+          data: { isLogin: false, wbi_img: WBI_IMG },
+        },
+        "GET /x/web-interface/wbi/search/type": SEARCH_RESPONSE,
+      }),
+    );
+    await refreshCacheEntry(WBI_CACHE_KEY);
+
+    await searchUsers({ keyword: "test" }, OPTIONS);
+    expect(urls.some((url) => url.includes("w_rid="))).toBe(true);
+    await expect(getCurrentUserMidFromAPI(OPTIONS)).rejects.toBeInstanceOf(
+      NotLoggedInError,
+    );
+  });
+});
@@ -1,6 +1,49 @@
-import { FansResponse, CommonFollowingsResponse } from "../types/bilibili";
+import {
+  FansItem,
+  FansResponse,
+  CommonFollowingsResponse,
+  RelationTagsResponse,
+  RelationTagMembersResponse,
+  RelationStatResponse,
+  RelationInfo,
+  RelationsResponse,
+  UserCardResponse,
+  UserSearchResponse,
+  UserVideosResponse,
+  VideoViewResponse,
+} from "../types/bilibili";
+import { accountScope, parseNamespacedKey } from "../utils/accountScope";
 import { cacheManager } from "../utils/cacheManager";
 import logger from "../utils/logger";
+import { GMTransport, Transport } from "./transport";
+import {
+  BiliApiError,
+  BiliApiErrorContext,
+  CacheOnlyError,
+  HttpError,
+  NetworkError,
+  NotLoggedInError,
+  ResponseParseError,
+  RequestCancelledError,
+  RiskControlError,
+  createApiError,
+  describeApiError,
+  throwIfAborted,
+} from "./errors";
+import { RequestPriority, requestScheduler } from "./scheduler";
+import { circuitBreaker } from "./circuitBreaker";
+import { validateResponse } from "./schema";
+import { requestTelemetry } from "./telemetry";
+import { graphStore } from "./graphStore";
+import {
+  WBI_CACHE_KEY,
+  WbiImg,
+  WbiKeyManager,
+  encodeWbiQuery,
+  isWbiSignatureError,
+  parseWbiKeys,
+  signWbiParams,
+} from "./wbi";
 
 // ================== 速率限制和重试配置 ==================
 
@@ -16,15 +59,25 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   maxDelayMs: 10000,
 };
 
-// 请求队列，用于速率限制
-let lastRequestTime = 0;
-const MIN_REQUEST_INTERVAL_MS = 300; // 最小请求间隔 300ms
-
 /**
- * 延迟函数
+ * 延迟函数（可被 signal 中止）
  */
-const delay = (ms: number): Promise<void> =>
-  new Promise((resolve) => setTimeout(resolve, ms));
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 
 /**
  * 计算指数退避延迟时间
@@ -38,20 +91,6 @@ const calculateBackoffDelay = (
   return Math.min(exponentialDelay + jitter, config.maxDelayMs);
 };
 
-/**
- * 等待速率限制
- */
-const waitForRateLimit = async (): Promise<void> => {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-
-  if (timeSinceLastRequest < MIN_REQUEST_INTERVAL_MS) {
-    await delay(MIN_REQUEST_INTERVAL_MS - timeSinceLastRequest);
-  }
-
-  lastRequestTime = Date.now();
-};
-
 // ================== 通用 HTTP 请求层 ==================
 
 interface BiliApiResponse {
@@ -64,76 +103,142 @@ interface BiliApiResponse {
 /**
  * 判断错误是否可重试
  */
-const isRetryableError = (error: Error, statusCode?: number): boolean => {
-  // HTTP 429 (Too Many Requests) 或 5xx 错误可重试
-  if (statusCode && (statusCode === 429 || statusCode >= 500)) {
-    return true;
-  }
-  // 网络错误和超时可重试
-  if (
-    error.message.includes("网络请求失败") ||
-    error.message.includes("请求超时")
-  ) {
-    return true;
-  }
-  return false;
+const isRetryableError = (error: unknown): boolean =>
+  error instanceof BiliApiError && error.retryable;
+
+/**
+ * 写操作只重试确定未被服务器执行的错误（风控拦截、HTTP 412/429）
+ * 超时、连接中断和 5xx 时服务器可能已经执行，重发会重复切换状态（如悄悄关注）
+ */
+const isRejectedBeforeExecution = (error: unknown): boolean =>
+  error instanceof RiskControlError ||
+  (error instanceof HttpError &&
+    (error.status === 412 || error.status === 429));
+
+// 熔断器状态驱动调度器：熔断时暂停所有请求，半开时降低速率
+circuitBreaker.subscribe(({ resumeAt, throughput }) => {
+  requestScheduler.throttle(resumeAt, throughput);
+});
+
+// 当前使用的传输实现，默认 GM_xmlhttpRequest
+let transport: Transport = new GMTransport();
+
+/**
+ * 替换请求层使用的传输实现（如 fetch 或夹具），返回之前的实现
+ */
+export const setTransport = (next: Transport): Transport => {
+  const previous = transport;
+  transport = next;
+  logger.log(`切换传输实现: ${previous.name} -> ${next.name}`);
+  return previous;
 };
 
+/**
+ * 获取当前传输实现
+ */
+export const getTransport = (): Transport => transport;
+
+/**
+ * 未登录时 nav 接口返回 -101，但仍下发 WBI 密钥：视为成功响应，签名接口在未登录时也可用
+ * 登录状态由调用方根据 isLogin 判断
+ */
+const isLoggedOutNav = (url: URL, data: BiliApiResponse): boolean =>
+  url.pathname === "/x/web-interface/nav" &&
+  data.code === -101 &&
+  typeof data.data === "object" &&
+  data.data !== null &&
+  "wbi_img" in data.data;
+
 /**
  * 单次请求执行
  */
-const executeRequest = <T extends BiliApiResponse>(
-  url: string,
+const executeRequest = async <T extends BiliApiResponse>(
+  url: URL,
+  signal?: AbortSignal,
+  body?: URLSearchParams,
 ): Promise<{ data: T; status: number }> => {
-  return new Promise((resolve, reject) => {
-    GM_xmlhttpRequest({
-      method: "GET",
-      url,
+  const vmidParam = url.searchParams.get("vmid");
+  const context: BiliApiErrorContext = {
+    endpoint: url.pathname,
+    vmid: vmidParam ? Number(vmidParam) : undefined,
+  };
+
+  let response;
+  try {
+    response = await transport.send({
+      method: body ? "POST" : "GET",
+      url: url.toString(),
       timeout: 30000,
-      onload: (response) => {
-        if (response.status < 200 || response.status >= 300) {
-          const error = new Error(
-            `HTTP 错误: ${response.status} ${response.statusText}`,
-          );
-          (error as any).statusCode = response.status;
-          reject(error);
-          return;
-        }
-
-        try {
-          const data: T = JSON.parse(response.responseText);
-          if (data.code === 0) {
-            resolve({ data, status: response.status });
-          } else if (data.code === -412) {
-            // B站风控限制
-            const error = new Error("请求被风控限制，请稍后重试");
-            (error as any).statusCode = 429;
-            reject(error);
-          } else {
-            reject(new Error(data.message || "请求失败"));
-          }
-        } catch (e) {
-          reject(new Error("响应解析失败"));
-        }
-      },
-      onerror: () => {
-        reject(new Error("网络请求失败"));
-      },
-      ontimeout: () => {
-        reject(new Error("请求超时"));
-      },
+      ...(body && {
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: body.toString(),
+      }),
+      signal,
     });
-  });
+  } catch (error) {
+    if (error instanceof BiliApiError) throw error.withContext(context);
+    throw new NetworkError(
+      error instanceof Error ? error.message : undefined,
+      context,
+    );
+  }
+
+  if (response.status < 200 || response.status >= 300) {
+    throw new HttpError(response.statusText, {
+      ...context,
+      status: response.status,
+    });
+  }
+
+  let data: T;
+  try {
+    data = JSON.parse(response.responseText);
+  } catch (e) {
+    throw new ResponseParseError({ ...context, status: response.status });
+  }
+
+  if (data.code !== 0 && !isLoggedOutNav(url, data)) {
+    throw createApiError(data.code, data.message, {
+      ...context,
+      status: response.status,
+    });
+  }
+
+  // 校验并规范化响应结构，可选字段缺失时填充默认值
+  data = validateResponse(url.pathname, data, {
+    ...context,
+    status: response.status,
+  }) as T;
+
+  return { data, status: response.status };
 };
 
 /**
- * 通用 API 请求函数（带速率限制和指数退避重试）
+ * 缓存模式
+ * - default: 按接口策略读写缓存
+ * - reload: 跳过缓存读取，强制请求并写入缓存
+ * - bypass: 不读也不写缓存
  */
-const request = async <T extends BiliApiResponse>(
+export type CacheMode = "default" | "reload" | "bypass";
+
+export interface RequestOptions {
+  /** 调度优先级，默认 normal */
+  priority?: RequestPriority;
+  retryConfig?: RetryConfig;
+  /** 中止信号：取消排队中和进行中的请求，以 RequestCancelledError 拒绝 */
+  signal?: AbortSignal;
+  /** 缓存模式，默认 default */
+  cache?: CacheMode;
+}
+
+/**
+ * 拼接请求地址和查询参数
+ * 参数按名称排序，保证相同参数得到相同的去重/缓存键
+ */
+const buildUrl = (
   url: string,
   params?: Record<string, string | number>,
-  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
-): Promise<T> => {
+): URL => {
   const fullUrl = new URL(url);
   if (params) {
     Object.entries(params).forEach(([key, value]) => {
@@ -142,39 +247,488 @@ const request = async <T extends BiliApiResponse>(
       }
     });
   }
+  fullUrl.searchParams.sort();
+  return fullUrl;
+};
 
-  let lastError: Error | null = null;
+// ================== WBI 签名 ==================
+
+/**
+ * 需要 WBI 签名的接口路径
+ */
+const WBI_ENDPOINTS = new Set([
+  "/x/space/wbi/acc/info",
+  "/x/space/wbi/arc/search",
+  "/x/web-interface/wbi/search/type",
+]);
+
+const NAV_URL = "https://api.bilibili.com/x/web-interface/nav";
+
+// 密钥来自 nav 接口，与获取登录状态的请求共享去重
+const wbiKeyManager = new WbiKeyManager(async () => {
+  const data = await request<NavResponse>(NAV_URL, undefined, {
+    priority: "interactive",
+  });
+  return parseWbiKeys(data.data.wbi_img);
+});
+
+/**
+ * 为请求地址追加 wts / w_rid
+ * 签名地址只用于发送，去重、缓存和调度仍使用未签名的地址
+ */
+const signUrl = async (fullUrl: URL): Promise<URL> => {
+  const mixinKey = await wbiKeyManager.getMixinKey();
+  const signed = signWbiParams(
+    Object.fromEntries(fullUrl.searchParams),
+    mixinKey,
+  );
+
+  const signedUrl = new URL(fullUrl.pathname, fullUrl.origin);
+  signedUrl.search = encodeWbiQuery(signed);
+  return signedUrl;
+};
+
+/**
+ * 执行单次请求并记录遥测（网络耗时不含排队等待）
+ */
+const executeWithTelemetry = async <T extends BiliApiResponse>(
+  url: URL,
+  enqueuedAt: number,
+  signal?: AbortSignal,
+  body?: URLSearchParams,
+): Promise<{ data: T; status: number }> => {
+  const startedAt = Date.now();
+  const queueWait = startedAt - enqueuedAt;
+  try {
+    const result = await executeRequest<T>(url, signal, body);
+    requestTelemetry.recordAttempt(
+      url.pathname,
+      Date.now() - startedAt,
+      queueWait,
+    );
+    return result;
+  } catch (error) {
+    requestTelemetry.recordAttempt(
+      url.pathname,
+      Date.now() - startedAt,
+      queueWait,
+      error,
+    );
+    throw error;
+  }
+};
+
+/**
+ * 带指数退避重试的请求（每次尝试经全局调度器限速）
+ * WBI 接口每次尝试重新签名，签名失效时刷新密钥重试一次
+ * @param shouldRetry 判断错误是否重试，默认按错误类型的 retryable
+ */
+const fetchWithRetry = async <T extends BiliApiResponse>(
+  fullUrl: URL,
+  priority: RequestPriority,
+  retryConfig: RetryConfig,
+  signal?: AbortSignal,
+  body?: URLSearchParams,
+  shouldRetry: (error: unknown) => boolean = isRetryableError,
+): Promise<T> => {
+  const signed = WBI_ENDPOINTS.has(fullUrl.pathname);
+  let keysRefreshed = false;
+  let lastError: unknown = null;
 
   for (let attempt = 0; attempt <= retryConfig.maxRetries; attempt++) {
     try {
-      // 等待速率限制
-      await waitForRateLimit();
+      // 在排队前签名，避免获取密钥的请求与签名请求争抢并发名额
+      const target = signed ? await signUrl(fullUrl) : fullUrl;
+      throwIfAborted(signal);
 
-      const { data } = await executeRequest<T>(fullUrl.toString());
+      // 每次尝试都重新排队，退避等待期间不占用并发名额
+      const enqueuedAt = Date.now();
+      const { data } = await requestScheduler.schedule(
+        () => executeWithTelemetry<T>(target, enqueuedAt, signal, body),
+        {
+          priority,
+          label: fullUrl.pathname,
+          key: fullUrl.toString(),
+          signal,
+        },
+      );
+      circuitBreaker.recordSuccess();
       return data;
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      const statusCode = (error as any)?.statusCode;
+      lastError = error;
+
+      if (error instanceof RiskControlError) {
+        circuitBreaker.recordRiskControl();
+      }
+
+      if (signed && !keysRefreshed && isWbiSignatureError(error)) {
+        keysRefreshed = true;
+        wbiKeyManager.invalidate();
+        logger.warn("WBI 签名失效，刷新密钥后重试");
+        requestTelemetry.recordRetry(fullUrl.pathname);
+        continue;
+      }
 
       // 如果不可重试或已达最大重试次数，抛出错误
-      if (
-        !isRetryableError(lastError, statusCode) ||
-        attempt === retryConfig.maxRetries
-      ) {
-        throw lastError;
+      if (!shouldRetry(error) || attempt === retryConfig.maxRetries) {
+        throw error;
       }
 
       // 计算退避延迟并等待
       const backoffDelay = calculateBackoffDelay(attempt, retryConfig);
       logger.warn(
         `请求失败，${Math.round(backoffDelay / 1000)}秒后重试 (${attempt + 1}/${retryConfig.maxRetries}):`,
-        lastError.message,
+        describeApiError(error),
+      );
+      requestTelemetry.recordRetry(fullUrl.pathname);
+      await delay(backoffDelay, signal);
+    }
+  }
+
+  throw lastError || new BiliApiError("请求失败");
+};
+
+// ================== 请求去重与响应缓存 ==================
+
+interface CachePolicy {
+  /** 缓存检查器中显示的类型名 */
+  label: string;
+  /** 新鲜期：期内直接返回缓存 */
+  ttlMs: number;
+  /** 新鲜期过后仍可返回旧数据的时长，返回的同时在后台刷新 */
+  staleWhileRevalidateMs: number;
+  /** 自定义缓存键，默认由规范化的请求地址生成 */
+  cacheKey?: (url: URL) => string;
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * 按接口路径配置的缓存策略，未配置的接口（如登录状态）不缓存
+ */
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  "/x/relation/followings": {
+    label: "关注列表",
+    ttlMs: 10 * MINUTE,
+    staleWhileRevalidateMs: DAY,
+  },
+  "/x/relation/fans": {
+    label: "粉丝列表",
+    ttlMs: 10 * MINUTE,
+    staleWhileRevalidateMs: DAY,
+  },
+  "/x/relation/followings/followed_upper": {
+    label: "共同关注",
+    ttlMs: 30 * DAY,
+    staleWhileRevalidateMs: 0,
+    cacheKey: (url) => `common_followings_${url.searchParams.get("vmid")}`,
+  },
+  "/x/relation/tags": {
+    label: "关注分组",
+    ttlMs: 10 * MINUTE,
+    staleWhileRevalidateMs: DAY,
+  },
+  "/x/relation/tag": {
+    label: "分组成员",
+    ttlMs: 10 * MINUTE,
+    staleWhileRevalidateMs: DAY,
+  },
+  "/x/relation/whispers": {
+    label: "悄悄关注",
+    ttlMs: 10 * MINUTE,
+    staleWhileRevalidateMs: DAY,
+  },
+  "/x/relation/blacks": {
+    label: "黑名单",
+    ttlMs: 10 * MINUTE,
+    staleWhileRevalidateMs: DAY,
+  },
+  // 资料变化较慢，过期后先展示旧数据
+  "/x/web-interface/card": {
+    label: "用户资料",
+    ttlMs: DAY,
+    staleWhileRevalidateMs: 7 * DAY,
+  },
+  "/x/relation/stat": {
+    label: "关注数与粉丝数",
+    ttlMs: 6 * 60 * MINUTE,
+    staleWhileRevalidateMs: 7 * DAY,
+  },
+  "/x/web-interface/wbi/search/type": {
+    label: "用户搜索",
+    ttlMs: 10 * MINUTE,
+    staleWhileRevalidateMs: 0,
+  },
+  "/x/space/wbi/arc/search": {
+    label: "投稿列表",
+    ttlMs: DAY,
+    staleWhileRevalidateMs: 7 * DAY,
+  },
+  // 投稿后的作者名单基本不会变化
+  "/x/web-interface/view": {
+    label: "视频详情",
+    ttlMs: 30 * DAY,
+    staleWhileRevalidateMs: 0,
+  },
+};
+
+// 共同关注按 vmid 缓存，与请求参数无关
+const COMMON_FOLLOWINGS_CACHE_KEY = /^common_followings_(\d+)$/;
+
+/** 缓存条目：响应数据及抓取时间 */
+interface CachedResponse<T> {
+  data: T;
+  fetchedAt: number;
+}
+
+interface RequestResult<T> {
+  data: T;
+  fromCache: boolean;
+  fetchedAt: number;
+}
+
+const getCacheKey = (policy: CachePolicy, url: URL): string =>
+  policy.cacheKey?.(url) ?? `api_${url.pathname}${url.search}`;
+
+/**
+ * 读取缓存条目（IndexedDB 优先，兼容迁移前留在 localStorage 的条目）
+ */
+const readCache = async <T>(key: string): Promise<CachedResponse<T> | null> => {
+  const cached = await cacheManager.getAsync<CachedResponse<T> | T>(key);
+  if (!cached) return null;
+
+  // 旧版本直接缓存响应本身，没有抓取时间；由 cacheManager 的过期时间兜底，视为新鲜
+  if (typeof (cached as CachedResponse<T>).fetchedAt !== "number") {
+    return { data: cached as T, fetchedAt: Date.now() };
+  }
+  return cached as CachedResponse<T>;
+};
+
+/**
+ * 写入缓存条目；写入失败（如存储空间不足）不影响请求结果
+ */
+const writeCache = async <T>(
+  key: string,
+  entry: CachedResponse<T>,
+): Promise<void> => {
+  try {
+    await cacheManager.setAsync(key, entry);
+  } catch (error) {
+    logger.warn(
+      `写入缓存失败 (${key}):`,
+      error instanceof Error ? error.message : error,
+    );
+  }
+};
+
+/** 多个调用方共享的进行中请求 */
+interface SharedRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  consumers: number;
+}
+
+// 修复3: 请求去重 - 按完整请求地址缓存正在进行的请求
+const pendingRequests = new Map<string, SharedRequest<unknown>>();
+
+/**
+ * 加入共享请求：每个调用方可以独立取消，
+ * 所有调用方都取消后才真正中止底层请求
+ */
+const joinShared = <T>(
+  shared: SharedRequest<T>,
+  signal?: AbortSignal,
+): Promise<T> => {
+  throwIfAborted(signal);
+  shared.consumers++;
+  if (!signal) return shared.promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      shared.consumers--;
+      if (shared.consumers === 0) {
+        shared.controller.abort();
+      }
+      reject(new RequestCancelledError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    shared.promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+};
+
+/**
+ * 发起请求，相同地址的进行中请求只发送一次；成功后按策略写入缓存
+ */
+const fetchShared = <T extends BiliApiResponse>(
+  fullUrl: URL,
+  policy: CachePolicy | undefined,
+  options: RequestOptions,
+): Promise<T> => {
+  const {
+    priority = "normal",
+    retryConfig = DEFAULT_RETRY_CONFIG,
+    signal,
+  } = options;
+  const key = fullUrl.toString();
+
+  const pending = pendingRequests.get(key) as SharedRequest<T> | undefined;
+  if (pending) {
+    logger.log(`复用进行中的请求: ${fullUrl.pathname}`);
+    requestTelemetry.recordDedup(fullUrl.pathname);
+    // 更高优先级的调用方复用请求时，提升排队中请求的优先级
+    if (options.priority) {
+      requestScheduler.promote(key, options.priority);
+    }
+    return joinShared(pending, signal);
+  }
+
+  // 底层请求使用共享的 controller
+  const controller = new AbortController();
+  const promise = (async (): Promise<T> => {
+    try {
+      const data = await fetchWithRetry<T>(
+        fullUrl,
+        priority,
+        retryConfig,
+        controller.signal,
       );
-      await delay(backoffDelay);
+      if (policy) {
+        await writeCache<T>(getCacheKey(policy, fullUrl), {
+          data,
+          fetchedAt: Date.now(),
+        });
+      }
+      return data;
+    } finally {
+      // 请求完成后从 pending 中移除
+      pendingRequests.delete(key);
+    }
+  })();
+
+  const shared: SharedRequest<T> = { promise, controller, consumers: 0 };
+  pendingRequests.set(key, shared);
+
+  return joinShared(shared, signal);
+};
+
+/**
+ * 通用 API 请求函数，返回数据及是否来自缓存
+ * 新鲜缓存直接返回；过期但在 stale-while-revalidate 窗口内的缓存直接返回并在后台刷新
+ */
+const requestWithMeta = async <T extends BiliApiResponse>(
+  url: string,
+  params?: Record<string, string | number>,
+  options: RequestOptions = {},
+): Promise<RequestResult<T>> => {
+  const { cache = "default" } = options;
+  const fullUrl = buildUrl(url, params);
+  const policy =
+    cache === "bypass" ? undefined : CACHE_POLICIES[fullUrl.pathname];
+
+  throwIfAborted(options.signal);
+
+  // 查看其他账号时只读缓存：忽略缓存年龄，未命中时不发起请求
+  if (accountScope.isViewingOtherAccount()) {
+    const cached = policy
+      ? await readCache<T>(getCacheKey(policy, fullUrl))
+      : null;
+    if (!cached) {
+      throw new CacheOnlyError({ endpoint: fullUrl.pathname });
+    }
+    requestTelemetry.recordCache(fullUrl.pathname, "hit");
+    return { ...cached, fromCache: true };
+  }
+
+  if (policy && cache === "default") {
+    const cached = await readCache<T>(getCacheKey(policy, fullUrl));
+    if (cached) {
+      const age = Date.now() - cached.fetchedAt;
+      const hit = { ...cached, fromCache: true };
+
+      if (age < policy.ttlMs) {
+        requestTelemetry.recordCache(fullUrl.pathname, "hit");
+        return hit;
+      }
+
+      if (age < policy.ttlMs + policy.staleWhileRevalidateMs) {
+        logger.log(`返回过期缓存并后台刷新: ${fullUrl.pathname}`);
+        requestTelemetry.recordCache(fullUrl.pathname, "stale");
+        fetchShared<T>(fullUrl, policy, {
+          priority: "background",
+          retryConfig: options.retryConfig,
+        }).catch((error) => {
+          logger.warn("后台刷新缓存失败:", describeApiError(error));
+        });
+        return hit;
+      }
     }
+    requestTelemetry.recordCache(fullUrl.pathname, "miss");
   }
 
-  throw lastError || new Error("请求失败");
+  const data = await fetchShared<T>(fullUrl, policy, options);
+  return { data, fromCache: false, fetchedAt: Date.now() };
+};
+
+/**
+ * 通用 API 请求函数（去重、缓存、经全局调度器限速、带指数退避重试）
+ */
+const request = async <T extends BiliApiResponse>(
+  url: string,
+  params?: Record<string, string | number>,
+  options: RequestOptions = {},
+): Promise<T> => (await requestWithMeta<T>(url, params, options)).data;
+
+// ================== 写操作 ==================
+
+/**
+ * 从 Cookie 读取 CSRF token（bili_jct）
+ * @throws NotLoggedInError 未登录时不存在该 Cookie
+ */
+export const getCsrfToken = (): string => {
+  const match = document.cookie.match(/(?:^|;\s*)bili_jct=([^;]+)/);
+  if (!match) {
+    throw new NotLoggedInError();
+  }
+  return decodeURIComponent(match[1]);
+};
+
+/**
+ * 写操作请求（表单 POST，自动附加 CSRF token）
+ * 不去重、不缓存，仍经全局调度器限速；只重试确定未执行的错误，超时和网络错误不重发
+ * @throws CacheOnlyError 查看其他账号时，写操作会作用于登录账号，直接拒绝
+ */
+const postRequest = async <T extends BiliApiResponse>(
+  url: string,
+  form: Record<string, string | number>,
+  options: RequestOptions = {},
+): Promise<T> => {
+  const {
+    priority = "normal",
+    retryConfig = DEFAULT_RETRY_CONFIG,
+    signal,
+  } = options;
+
+  if (accountScope.isViewingOtherAccount()) {
+    throw new CacheOnlyError({ endpoint: new URL(url).pathname });
+  }
+
+  const body = new URLSearchParams();
+  Object.entries(form).forEach(([key, value]) => {
+    body.append(key, String(value));
+  });
+  body.append("csrf", getCsrfToken());
+
+  return fetchWithRetry<T>(
+    new URL(url),
+    priority,
+    retryConfig,
+    signal,
+    body,
+    isRejectedBeforeExecution,
+  );
 };
 
 // ================== 类型定义 ==================
@@ -187,6 +741,7 @@ interface NavResponse {
     isLogin: boolean;
     mid: number;
     uname: string;
+    wbi_img: WbiImg;
   };
 }
 
@@ -197,135 +752,802 @@ interface GetFansListParams {
   offset?: string;
 }
 
+interface GetSelfRelationListParams {
+  ps?: number;
+  pn?: number;
+}
+
+interface GetTagMembersParams {
+  tagid: number;
+  ps?: number;
+  pn?: number;
+}
+
+/** 分页迭代器产出的一页数据 */
+export interface RelationPage {
+  list: FansItem[];
+  pn: number;
+  total: number;
+  /** 截至本页累计获取的数量 */
+  fetched: number;
+  /** API 提前终止（服务器端分页上限等），未能获取全部数据；仅在最后一页为 true */
+  truncated: boolean;
+}
+
+export interface IterateRelationOptions extends RequestOptions {
+  /** 每页数量，默认 50（接口上限） */
+  ps?: number;
+  /** 是否为当前登录用户；他人的列表受服务器端分页上限限制 */
+  isSelf?: boolean;
+  /** 最多获取的页数，默认本人不限、他人为服务器上限 */
+  maxPages?: number;
+}
+
+interface GetUserVideosParams {
+  mid: number;
+  ps?: number;
+  pn?: number;
+}
+
+interface SearchUsersParams {
+  keyword: string;
+  page?: number;
+}
+
+/** 用户搜索结果 */
+export interface SearchedUser {
+  mid: number;
+  uname: string;
+  face: string;
+  sign: string;
+  fans: number;
+  level: number;
+}
+
+export interface UserSearchPage {
+  users: SearchedUser[];
+  total: number;
+  numPages: number;
+}
+
 export interface CommonFollowingsResult {
   response: CommonFollowingsResponse;
   fromCache: boolean;
 }
 
-// 修复3: 请求去重 - 缓存正在进行的请求
-const pendingRequests = new Map<string, Promise<CommonFollowingsResult>>();
+// B站只开放他人关注/粉丝列表的前 5 页
+const OTHERS_PAGE_LIMIT = 5;
+// 超出分页上限时返回的业务 code
+const PAGE_LIMIT_CODE = 22007;
 
 // ================== API 函数 ==================
 
 /**
- * 通过 API 获取当前登录用户的 mid
+ * 通过 API 获取当前登录用户的 mid，同时记录到本地账号列表
+ * 查看其他账号的缓存时返回该账号的 mid
  */
-export const getCurrentUserMidFromAPI = async (): Promise<number> => {
-  const data = await request<NavResponse>(
-    "https://api.bilibili.com/x/web-interface/nav",
-  );
+export const getCurrentUserMidFromAPI = async (
+  options: RequestOptions = {},
+): Promise<number> => {
+  if (accountScope.isViewingOtherAccount()) {
+    return accountScope.getActiveMid();
+  }
+
+  const data = await request<NavResponse>(NAV_URL, undefined, options);
 
   // 修复2: 检查 data.data 是否存在
   if (!data.data) {
-    throw new Error("无效的响应数据");
+    throw new ResponseParseError({ endpoint: "/x/web-interface/nav" });
   }
 
   if (!data.data.isLogin) {
-    throw new Error("用户未登录");
+    throw new NotLoggedInError({ endpoint: "/x/web-interface/nav" });
   }
 
+  accountScope.registerAccount(data.data.mid, data.data.uname);
   return data.data.mid;
 };
 
 /**
  * 获取当前用户的 mid (同步方法)
- * 从页面中提取，适合在 B站页面内使用
+ * 「我的」数据统一以当前使用的账号为准（登录账号，或账号切换中查看的账号），与缓存命名空间一致；
+ * 不从页面 URL 读取，访问他人空间时 URL 中是对方的 mid
+ * @returns 未登录时为 0
  */
-export const getCurrentUserMid = (): number => {
-  // 尝试从页面 URL 获取
-  const match = window.location.href.match(/space\.bilibili\.com\/(\d+)/);
-  if (match) {
-    return parseInt(match[1], 10);
-  }
+export const getCurrentUserMid = (): number => accountScope.getActiveMid();
 
-  // 尝试从页面元素获取
-  const midElement = document.querySelector("[data-usercard-mid]");
-  if (midElement) {
-    const mid = midElement.getAttribute("data-usercard-mid");
-    if (mid) return parseInt(mid, 10);
-  }
-
-  return 0;
-};
+/**
+ * 将关系列表写入本地关系网络，写入失败不影响请求结果
+ * 观察时间取响应的抓取时间，缓存命中时不会把旧数据记为最新
+ */
+const recordRelations = (
+  vmid: number,
+  list: FansItem[],
+  provenance: "followings" | "fans" | "common_followings",
+  fetchedAt: number,
+  viewer?: number,
+): Promise<void> =>
+  graphStore
+    .recordUserList(vmid, list, provenance, fetchedAt, viewer)
+    .catch((error) => logger.warn("写入本地关系网络失败:", error));
 
 /**
  * 获取粉丝列表
  */
-export const getFansList = (
+export const getFansList = async (
   params: GetFansListParams,
+  options: RequestOptions = {},
 ): Promise<FansResponse> => {
   const { vmid, ps = 20, pn = 1, offset } = params;
-  return request<FansResponse>("https://api.bilibili.com/x/relation/fans", {
-    vmid,
-    ps,
-    pn,
-    ...(offset && { offset }),
-  });
+  const { data, fetchedAt } = await requestWithMeta<FansResponse>(
+    "https://api.bilibili.com/x/relation/fans",
+    {
+      vmid,
+      ps,
+      pn,
+      ...(offset && { offset }),
+    },
+    options,
+  );
+  recordRelations(vmid, data.data.list || [], "fans", fetchedAt);
+  return data;
 };
 
 /**
  * 获取关注列表
  */
-export const getFollowingsList = (
+export const getFollowingsList = async (
   params: GetFansListParams,
+  options: RequestOptions = {},
 ): Promise<FansResponse> => {
   const { vmid, ps = 20, pn = 1 } = params;
-  return request<FansResponse>(
+  const { data, fetchedAt } = await requestWithMeta<FansResponse>(
     "https://api.bilibili.com/x/relation/followings",
     {
       vmid,
       ps,
       pn,
     },
+    options,
   );
+  recordRelations(vmid, data.data.list || [], "followings", fetchedAt);
+  return data;
 };
 
+/**
+ * 通用分页遍历：处理页码、fans 的 offset 游标和服务器端分页上限
+ * 传入 crawl 时遍历结束后在本地关系网络中记录抓取进度
+ */
+async function* iterateRelationPages(
+  fetchPage: (pn: number, ps: number, offset?: string) => Promise<FansResponse>,
+  options: IterateRelationOptions,
+  crawl?: { kind: "followings" | "fans"; vmid: number },
+): AsyncGenerator<RelationPage, void, undefined> {
+  const { ps = 50, isSelf = false } = options;
+  const maxPages = options.maxPages ?? (isSelf ? Infinity : OTHERS_PAGE_LIMIT);
+  const startedAt = Date.now();
+  const seen: number[] = [];
+
+  /** 记录抓取进度，中途停止的遍历不记录 */
+  const finishCrawl = (complete: boolean) => {
+    if (!crawl) return;
+    graphStore
+      .finishCrawl(crawl.kind, crawl.vmid, seen, {
+        status: complete ? "complete" : "partial",
+        fetched,
+        total,
+        updatedAt: startedAt,
+      })
+      .catch((error) => logger.warn("记录抓取进度失败:", error));
+  };
+
+  let pn = 1;
+  let offset: string | undefined;
+  let total = 0;
+  let fetched = 0;
+
+  while (true) {
+    let response: FansResponse;
+    try {
+      response = await fetchPage(pn, ps, offset);
+    } catch (error) {
+      // 超出服务器端分页上限：以空页结束并标记截断
+      if (
+        pn > 1 &&
+        error instanceof BiliApiError &&
+        error.code === PAGE_LIMIT_CODE
+      ) {
+        finishCrawl(false);
+        yield { list: [], pn, total, fetched, truncated: true };
+        return;
+      }
+      throw error;
+    }
+
+    const list = response.data.list || [];
+    total = response.data.total;
+    fetched += list.length;
+    offset = response.data.offset || undefined;
+    list.forEach((item) => seen.push(item.mid));
+
+    const complete = fetched >= total;
+    const exhausted = list.length < ps;
+    const last = complete || exhausted || pn >= maxPages;
+
+    if (last) finishCrawl(complete);
+    yield { list, pn, total, fetched, truncated: last && !complete };
+    if (last) return;
+    pn++;
+  }
+}
+
+/**
+ * 逐页遍历关注列表
+ */
+export const iterateFollowings = (
+  vmid: number,
+  options: IterateRelationOptions = {},
+): AsyncGenerator<RelationPage, void, undefined> =>
+  iterateRelationPages(
+    (pn, ps) => getFollowingsList({ vmid, ps, pn }, options),
+    options,
+    { kind: "followings", vmid },
+  );
+
+/**
+ * 逐页遍历粉丝列表（使用 offset 游标翻页）
+ */
+export const iterateFans = (
+  vmid: number,
+  options: IterateRelationOptions = {},
+): AsyncGenerator<RelationPage, void, undefined> =>
+  iterateRelationPages(
+    (pn, ps, offset) => getFansList({ vmid, ps, pn, offset }, options),
+    options,
+    { kind: "fans", vmid },
+  );
+
 /**
  * 获取共同关注列表（带缓存和请求去重）
  */
 export const getCommonFollowings = async (
   vmid: number,
   useCache: boolean = true,
+  options: RequestOptions = {},
 ): Promise<CommonFollowingsResult> => {
-  const cacheKey = `common_followings_${vmid}`;
+  const { data, fromCache, fetchedAt } =
+    await requestWithMeta<CommonFollowingsResponse>(
+      "https://api.bilibili.com/x/relation/followings/followed_upper",
+      { vmid },
+      { ...options, cache: useCache ? options.cache : "reload" },
+    );
 
-  // 先查询缓存
-  if (useCache) {
-    const cached = cacheManager.get<CommonFollowingsResponse>(cacheKey);
-    if (cached) {
-      logger.log(`从缓存加载共同关注 (mid: ${vmid})`);
-      return { response: cached, fromCache: true };
+  // 共同关注一次返回全部，记录为完整抓取；结果是与缓存所属账号关注列表的交集，按该账号记录
+  const list = data.data.list || [];
+  const viewer = accountScope.getActiveMid();
+  recordRelations(vmid, list, "common_followings", fetchedAt, viewer)
+    .then(() =>
+      graphStore.finishCrawl(
+        "common_followings",
+        vmid,
+        list.map((item) => item.mid),
+        {
+          status: "complete",
+          fetched: list.length,
+          total: list.length,
+          updatedAt: fetchedAt,
+          viewer,
+        },
+      ),
+    )
+    .catch((error) => logger.warn("记录抓取进度失败:", error));
+
+  logger.log(
+    fromCache
+      ? `从缓存加载共同关注 (mid: ${vmid})`
+      : `API 请求共同关注 (mid: ${vmid}), 已缓存`,
+  );
+  return { response: data, fromCache };
+};
+
+/**
+ * 获取当前用户的悄悄关注列表
+ */
+export const getWhispersList = (
+  params: GetSelfRelationListParams = {},
+  options: RequestOptions = {},
+): Promise<FansResponse> => {
+  const { ps = 20, pn = 1 } = params;
+  return request<FansResponse>(
+    "https://api.bilibili.com/x/relation/whispers",
+    {
+      ps,
+      pn,
+    },
+    options,
+  );
+};
+
+/**
+ * 获取当前用户的黑名单
+ */
+export const getBlacksList = (
+  params: GetSelfRelationListParams = {},
+  options: RequestOptions = {},
+): Promise<FansResponse> => {
+  const { ps = 20, pn = 1 } = params;
+  return request<FansResponse>(
+    "https://api.bilibili.com/x/relation/blacks",
+    {
+      ps,
+      pn,
+    },
+    options,
+  );
+};
+
+/**
+ * 逐页遍历悄悄关注列表
+ */
+export const iterateWhispers = (
+  options: IterateRelationOptions = {},
+): AsyncGenerator<RelationPage, void, undefined> =>
+  iterateRelationPages((pn, ps) => getWhispersList({ ps, pn }, options), {
+    ...options,
+    isSelf: true,
+  });
+
+/**
+ * 逐页遍历黑名单
+ */
+export const iterateBlacks = (
+  options: IterateRelationOptions = {},
+): AsyncGenerator<RelationPage, void, undefined> =>
+  iterateRelationPages((pn, ps) => getBlacksList({ ps, pn }, options), {
+    ...options,
+    isSelf: true,
+  });
+
+// ================== 关注分组 ==================
+
+/**
+ * 获取当前用户的关注分组（含默认分组和特别关注）
+ */
+export const getRelationTags = (
+  options: RequestOptions = {},
+): Promise<RelationTagsResponse> =>
+  request<RelationTagsResponse>(
+    "https://api.bilibili.com/x/relation/tags",
+    undefined,
+    options,
+  );
+
+/**
+ * 获取关注分组中的用户（分页）
+ */
+export const getRelationTagMembers = (
+  params: GetTagMembersParams,
+  options: RequestOptions = {},
+): Promise<RelationTagMembersResponse> => {
+  const { tagid, ps = 20, pn = 1 } = params;
+  return request<RelationTagMembersResponse>(
+    "https://api.bilibili.com/x/relation/tag",
+    {
+      tagid,
+      ps,
+      pn,
+    },
+    options,
+  );
+};
+
+// ================== 用户资料 ==================
+
+/**
+ * 获取用户名片（昵称、性别、等级、认证、粉丝数和关注数）
+ */
+export const getUserCard = (
+  mid: number,
+  options: RequestOptions = {},
+): Promise<UserCardResponse> =>
+  request<UserCardResponse>(
+    "https://api.bilibili.com/x/web-interface/card",
+    { mid },
+    options,
+  );
+
+/**
+ * 获取用户的关注数和粉丝数
+ */
+export const getRelationStat = (
+  vmid: number,
+  options: RequestOptions = {},
+): Promise<RelationStatResponse> =>
+  request<RelationStatResponse>(
+    "https://api.bilibili.com/x/relation/stat",
+    { vmid },
+    options,
+  );
+
+// ================== 投稿视频 ==================
+
+/**
+ * 获取用户的投稿视频（按投稿时间倒序）
+ */
+export const getUserVideos = (
+  params: GetUserVideosParams,
+  options: RequestOptions = {},
+): Promise<UserVideosResponse> => {
+  const { mid, ps = 30, pn = 1 } = params;
+  return request<UserVideosResponse>(
+    "https://api.bilibili.com/x/space/wbi/arc/search",
+    {
+      mid,
+      ps,
+      pn,
+      order: "pubdate",
+    },
+    options,
+  );
+};
+
+/**
+ * 获取视频详情（联合投稿含全部作者 staff）
+ */
+export const getVideoView = (
+  bvid: string,
+  options: RequestOptions = {},
+): Promise<VideoViewResponse> =>
+  request<VideoViewResponse>(
+    "https://api.bilibili.com/x/web-interface/view",
+    { bvid },
+    options,
+  );
+
+// ================== 用户搜索 ==================
+
+/**
+ * 按关键词搜索用户（每页 20 个，按相关度排序）
+ */
+export const searchUsers = async (
+  params: SearchUsersParams,
+  options: RequestOptions = {},
+): Promise<UserSearchPage> => {
+  const { keyword, page = 1 } = params;
+  const response = await request<UserSearchResponse>(
+    "https://api.bilibili.com/x/web-interface/wbi/search/type",
+    {
+      search_type: "bili_user",
+      keyword,
+      page,
+    },
+    options,
+  );
+
+  return {
+    users: response.data.result.map((item) => ({
+      mid: item.mid,
+      uname: item.uname,
+      // 搜索接口的头像地址省略了协议
+      face: item.upic.startsWith("//") ? `https:${item.upic}` : item.upic,
+      sign: item.usign,
+      fans: item.fans,
+      level: item.level,
+    })),
+    total: response.data.numResults,
+    numPages: response.data.numPages,
+  };
+};
+
+// ================== 批量关系查询 ==================
+
+const RELATIONS_ENDPOINT = "/x/relation/relations";
+// 单次请求的 fids 上限
+const RELATIONS_CHUNK_SIZE = 50;
+// 按用户缓存关系，不同批次组合的请求也能命中
+const RELATION_CACHE_PREFIX = "relation_";
+const RELATION_TTL_MS = 10 * MINUTE;
+
+/**
+ * 查询我与一批用户的关系（单次请求，不超过 RELATIONS_CHUNK_SIZE 个）
+ */
+export const getRelations = (
+  fids: number[],
+  options: RequestOptions = {},
+): Promise<RelationsResponse> =>
+  request<RelationsResponse>(
+    `https://api.bilibili.com${RELATIONS_ENDPOINT}`,
+    { fids: fids.join(",") },
+    options,
+  );
+
+/**
+ * 查询我与任意数量用户的关系：按用户读取缓存，其余分批请求
+ * 响应中缺失的用户视为无关系（attribute 为 0）
+ * 查看其他账号的缓存时只返回已缓存的用户
+ */
+export const getRelationsBatch = async (
+  fids: number[],
+  options: RequestOptions = {},
+): Promise<Map<number, RelationInfo>> => {
+  const { cache = "default" } = options;
+  const cacheOnly = accountScope.isViewingOtherAccount();
+  const result = new Map<number, RelationInfo>();
+  const missing: number[] = [];
+
+  const uniqueFids = [...new Set(fids)];
+  const cachedEntries =
+    cache === "default" || cacheOnly
+      ? await Promise.all(
+          uniqueFids.map((fid) =>
+            cacheManager.getAsync<CachedResponse<RelationInfo>>(
+              `${RELATION_CACHE_PREFIX}${fid}`,
+            ),
+          ),
+        )
+      : [];
+  // 与按接口缓存一致，逐个用户记录缓存命中情况
+  uniqueFids.forEach((fid, index) => {
+    const cached = cachedEntries[index];
+    if (
+      cached &&
+      (cacheOnly || Date.now() - cached.fetchedAt < RELATION_TTL_MS)
+    ) {
+      result.set(fid, cached.data);
+      requestTelemetry.recordCache(RELATIONS_ENDPOINT, "hit");
+    } else {
+      missing.push(fid);
+      if (cache === "default" && !cacheOnly) {
+        requestTelemetry.recordCache(RELATIONS_ENDPOINT, "miss");
+      }
     }
-  }
+  });
+  if (cacheOnly) return result;
 
-  // 修复3: 检查是否有正在进行的相同请求，避免重复请求
-  const pendingKey = `pending_${vmid}`;
-  if (pendingRequests.has(pendingKey)) {
-    logger.log(`复用进行中的请求 (mid: ${vmid})`);
-    return pendingRequests.get(pendingKey)!;
+  const chunks: number[][] = [];
+  for (let i = 0; i < missing.length; i += RELATIONS_CHUNK_SIZE) {
+    chunks.push(missing.slice(i, i + RELATIONS_CHUNK_SIZE));
   }
 
-  // 创建请求 Promise
-  const requestPromise = (async (): Promise<CommonFollowingsResult> => {
-    try {
-      const response = await request<CommonFollowingsResponse>(
-        "https://api.bilibili.com/x/relation/followings/followed_upper",
-        { vmid },
+  await Promise.all(
+    chunks.map(async (chunk) => {
+      const response = await getRelations(chunk, options);
+      const fetchedAt = Date.now();
+      await Promise.all(
+        chunk.map(async (fid) => {
+          const info: RelationInfo = response.data[fid] ?? {
+            mid: fid,
+            attribute: 0,
+            mtime: 0,
+            tag: null,
+            special: 0,
+          };
+          result.set(fid, info);
+          if (cache !== "bypass") {
+            await writeCache(`${RELATION_CACHE_PREFIX}${fid}`, {
+              data: info,
+              fetchedAt,
+            });
+          }
+        }),
       );
+    }),
+  );
 
-      // 存入缓存
-      cacheManager.set(cacheKey, response);
-      logger.log(`API 请求共同关注 (mid: ${vmid}), 已缓存`);
+  return result;
+};
 
-      return { response, fromCache: false };
-    } finally {
-      // 请求完成后从 pending 中移除
-      pendingRequests.delete(pendingKey);
-    }
-  })();
+// ================== 关系修改 ==================
+
+/**
+ * /x/relation/modify 的 act 参数
+ */
+const RELATION_ACTS = {
+  follow: 1,
+  unfollow: 2,
+  quiet_follow: 3,
+  unquiet_follow: 4,
+  block: 5,
+  unblock: 6,
+} as const;
+
+export type RelationAction = keyof typeof RELATION_ACTS;
+
+export interface RelationWriteOptions extends RequestOptions {
+  /** 为 false 时不清理关系缓存，由调用方在批量修改结束后调用 invalidateRelationCache */
+  invalidateCache?: boolean;
+}
+
+// 关注关系变化后失效的缓存
+const RELATION_WRITE_INVALIDATES = [
+  "api_/x/relation/followings?",
+  // 共同关注是对方关注与我的关注列表的交集
+  "common_followings_",
+  "api_/x/relation/whispers?",
+  "api_/x/relation/blacks?",
+  RELATION_CACHE_PREFIX,
+  // 同时匹配 /x/relation/tags 和 /x/relation/tag?...
+  "api_/x/relation/tag",
+];
+
+/**
+ * 关注关系变化后，丢弃已缓存的关注列表、共同关注、关系、分组、悄悄关注和黑名单数据
+ * 修改已在服务器生效，清理失败只记录日志，不作为修改失败抛出
+ */
+export const invalidateRelationCache = async (): Promise<void> => {
+  try {
+    await Promise.all([
+      ...RELATION_WRITE_INVALIDATES.map((prefix) =>
+        cacheManager.removeByPrefixAsync(prefix),
+      ),
+      graphStore.expireCommonFollowings(accountScope.getActiveMid()),
+    ]);
+  } catch (error) {
+    logger.warn("清理关系缓存失败:", error);
+  }
+};
+
+/**
+ * 修改与用户的关注关系
+ */
+export const modifyRelation = async (
+  fid: number,
+  action: RelationAction,
+  options: RelationWriteOptions = {},
+): Promise<void> => {
+  const { invalidateCache = true, ...requestOptions } = options;
+  await postRequest<BiliApiResponse>(
+    "https://api.bilibili.com/x/relation/modify",
+    {
+      fid,
+      act: RELATION_ACTS[action],
+      re_src: 11, // 来源：个人空间
+    },
+    requestOptions,
+  );
+  if (invalidateCache) await invalidateRelationCache();
+  logger.log(`关注关系已修改 (mid: ${fid}, ${action})`);
+};
+
+/**
+ * 关注用户
+ */
+export const followUser = (
+  fid: number,
+  options: RelationWriteOptions = {},
+): Promise<void> => modifyRelation(fid, "follow", options);
 
-  // 将请求添加到 pending 中
-  pendingRequests.set(pendingKey, requestPromise);
+/**
+ * 取消关注
+ */
+export const unfollowUser = (
+  fid: number,
+  options: RelationWriteOptions = {},
+): Promise<void> => modifyRelation(fid, "unfollow", options);
 
-  return requestPromise;
+/**
+ * 转为悄悄关注
+ */
+export const quietFollowUser = (
+  fid: number,
+  options: RelationWriteOptions = {},
+): Promise<void> => modifyRelation(fid, "quiet_follow", options);
+
+/**
+ * 取消悄悄关注
+ */
+export const unquietFollowUser = (
+  fid: number,
+  options: RelationWriteOptions = {},
+): Promise<void> => modifyRelation(fid, "unquiet_follow", options);
+
+/**
+ * 移出黑名单
+ */
+export const unblockUser = (
+  fid: number,
+  options: RelationWriteOptions = {},
+): Promise<void> => modifyRelation(fid, "unblock", options);
+
+/**
+ * 设置用户所在的关注分组（覆盖原有分组）
+ * @param tagids 目标分组，为空时移入默认分组
+ */
+export const setUserTags = async (
+  fids: number[],
+  tagids: number[],
+  options: RelationWriteOptions = {},
+): Promise<void> => {
+  const { invalidateCache = true, ...requestOptions } = options;
+  await postRequest<BiliApiResponse>(
+    "https://api.bilibili.com/x/relation/tags/addUsers",
+    {
+      fids: fids.join(","),
+      tagids: tagids.length > 0 ? tagids.join(",") : "0",
+    },
+    requestOptions,
+  );
+  if (invalidateCache) await invalidateRelationCache();
+  logger.log(`关注分组已更新 (${fids.length} 人 -> ${tagids.join(",") || 0})`);
+};
+
+// ================== 缓存条目 ==================
+
+/** 缓存条目的类型，用于分类展示和按类型清除 */
+export interface CacheKeyInfo {
+  /** 接口路径，或内部缓存的名称 */
+  type: string;
+  label: string;
+  /** 能否重新请求以刷新该条目 */
+  refreshable: boolean;
+}
+
+const API_CACHE_KEY = /^api_([^?]*)\??(.*)$/;
+
+/**
+ * 解析缓存键（可带账号命名空间）对应的数据类型
+ */
+export const describeCacheKey = (key: string): CacheKeyInfo => {
+  const bareKey = parseNamespacedKey(key).key;
+  const api = bareKey.match(API_CACHE_KEY);
+  if (api) {
+    const policy = CACHE_POLICIES[api[1]];
+    return {
+      type: api[1],
+      label: policy?.label ?? api[1],
+      refreshable: !!policy,
+    };
+  }
+  if (COMMON_FOLLOWINGS_CACHE_KEY.test(bareKey)) {
+    const type = "/x/relation/followings/followed_upper";
+    return { type, label: CACHE_POLICIES[type].label, refreshable: true };
+  }
+  if (bareKey.startsWith(RELATION_CACHE_PREFIX)) {
+    return { type: "relation", label: "与我的关系", refreshable: true };
+  }
+  if (bareKey === WBI_CACHE_KEY) {
+    return { type: "wbi", label: "WBI 密钥", refreshable: true };
+  }
+  return { type: "unknown", label: "其他", refreshable: false };
+};
+
+/**
+ * 重新请求并覆盖当前账号的一个缓存条目
+ * @param key 不带账号命名空间的缓存键
+ * @throws BiliApiError 该类型的条目不支持刷新
+ */
+export const refreshCacheEntry = async (
+  key: string,
+  options: RequestOptions = {},
+): Promise<void> => {
+  const reloadOptions: RequestOptions = {
+    priority: "interactive",
+    ...options,
+    cache: "reload",
+  };
+
+  const api = key.match(API_CACHE_KEY);
+  if (api && CACHE_POLICIES[api[1]]) {
+    await requestWithMeta(
+      `https://api.bilibili.com${api[1]}`,
+      Object.fromEntries(new URLSearchParams(api[2])),
+      reloadOptions,
+    );
+    return;
+  }
+  const common = key.match(COMMON_FOLLOWINGS_CACHE_KEY);
+  if (common) {
+    await getCommonFollowings(Number(common[1]), false, reloadOptions);
+    return;
+  }
+  if (key.startsWith(RELATION_CACHE_PREFIX)) {
+    const fid = Number(key.substring(RELATION_CACHE_PREFIX.length));
+    await getRelationsBatch([fid], reloadOptions);
+    return;
+  }
+  if (key === WBI_CACHE_KEY) {
+    await wbiKeyManager.refresh();
+    return;
+  }
+  throw new BiliApiError(`不支持刷新的缓存条目: ${key}`);
 };
@@ -0,0 +1,192 @@
+/**
+ * 风控熔断器
+ * 短时间内多次触发风控（-412 / -352）时熔断：所有请求暂停一段冷却时间，
+ * 冷却结束后进入半开状态，按成功请求数逐级恢复吞吐量
+ */
+
+import logger from "../utils/logger";
+
+// ================== 类型定义 ==================
+
+/**
+ * closed: 正常放行
+ * open: 熔断中，暂停所有请求
+ * half_open: 冷却结束，降速试探恢复
+ */
+export type CircuitState = "closed" | "open" | "half_open";
+
+interface CircuitBreakerConfig {
+  failureThreshold: number; // 窗口内触发熔断的风控次数
+  failureWindowMs: number; // 统计窗口
+  baseCooldownMs: number; // 首次熔断冷却时间
+  maxCooldownMs: number; // 冷却时间上限（连续熔断时翻倍）
+  rampSteps: number[]; // 半开状态下逐级恢复的吞吐比例
+  successesPerStep: number; // 每升一级所需的连续成功数
+}
+
+const DEFAULT_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 3,
+  failureWindowMs: 60 * 1000,
+  baseCooldownMs: 60 * 1000,
+  maxCooldownMs: 10 * 60 * 1000,
+  rampSteps: [0.25, 0.5, 0.75],
+  successesPerStep: 5,
+};
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  /** 熔断恢复时间戳（仅 open 状态） */
+  resumeAt: number | null;
+  /** 当前允许的吞吐比例，0 ~ 1 */
+  throughput: number;
+  /** 连续熔断次数 */
+  trips: number;
+}
+
+type BreakerListener = (snapshot: CircuitBreakerSnapshot) => void;
+
+// ================== 熔断器 ==================
+
+class CircuitBreaker {
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = "closed";
+  private failures: number[] = [];
+  private trips = 0;
+  private resumeAt: number | null = null;
+  private rampIndex = 0;
+  private successes = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<BreakerListener>();
+
+  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * 记录一次风控响应
+   */
+  recordRiskControl(): void {
+    const now = Date.now();
+
+    // 半开状态下再次触发风控，立即重新熔断
+    if (this.state === "half_open") {
+      this.trip(now);
+      return;
+    }
+    if (this.state === "open") return;
+
+    this.failures = this.failures.filter(
+      (t) => now - t < this.config.failureWindowMs,
+    );
+    this.failures.push(now);
+
+    if (this.failures.length >= this.config.failureThreshold) {
+      this.trip(now);
+    }
+  }
+
+  /**
+   * 记录一次成功请求
+   */
+  recordSuccess(): void {
+    if (this.state !== "half_open") return;
+
+    this.successes++;
+    if (this.successes < this.config.successesPerStep) return;
+
+    this.successes = 0;
+    this.rampIndex++;
+    if (this.rampIndex >= this.config.rampSteps.length) {
+      logger.log("风控熔断已完全恢复");
+      this.state = "closed";
+      this.trips = 0;
+      this.failures = [];
+    }
+    this.notify();
+  }
+
+  /**
+   * 获取当前状态快照
+   */
+  getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      state: this.state,
+      resumeAt: this.resumeAt,
+      throughput: this.getThroughput(),
+      trips: this.trips,
+    };
+  }
+
+  /**
+   * 订阅状态变化，返回取消订阅函数
+   */
+  subscribe(listener: BreakerListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getSnapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 手动重置（调试用）
+   */
+  reset(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.state = "closed";
+    this.failures = [];
+    this.trips = 0;
+    this.resumeAt = null;
+    this.notify();
+  }
+
+  private getThroughput(): number {
+    switch (this.state) {
+      case "open":
+        return 0;
+      case "half_open":
+        return this.config.rampSteps[this.rampIndex];
+      default:
+        return 1;
+    }
+  }
+
+  /**
+   * 进入熔断状态，冷却时间随连续熔断次数翻倍
+   */
+  private trip(now: number): void {
+    const cooldown = Math.min(
+      this.config.baseCooldownMs * Math.pow(2, this.trips),
+      this.config.maxCooldownMs,
+    );
+    this.trips++;
+    this.state = "open";
+    this.resumeAt = now + cooldown;
+    this.failures = [];
+    logger.warn(
+      `多次触发风控，暂停所有请求 ${Math.round(cooldown / 1000)} 秒 (第 ${this.trips} 次)`,
+    );
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.state = "half_open";
+      this.resumeAt = null;
+      this.rampIndex = 0;
+      this.successes = 0;
+      logger.log("风控冷却结束，降速恢复请求");
+      this.notify();
+    }, cooldown);
+
+    this.notify();
+  }
+
+  private notify(): void {
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
+
+// 导出单例
+export const circuitBreaker = new CircuitBreaker();
@@ -0,0 +1,150 @@
+/**
+ * 合作关系爬取
+ * - 扫描 UP 主最近的投稿，找出联合投稿（is_union_video）
+ * - 仅对联合投稿请求视频详情，从 staff 获取全部作者；普通投稿不产生额外请求
+ * - 同一合作者的多个视频合并为一条合作关系
+ * - 扫描结果写入本地关系网络，可在下次打开关系图时直接展示
+ */
+
+import { RequestOptions, getUserVideos, getVideoView } from "./biliApi";
+import {
+  NotLoggedInError,
+  RequestCancelledError,
+  RiskControlError,
+  describeApiError,
+} from "./errors";
+import { graphStore } from "./graphStore";
+import logger from "../utils/logger";
+
+// ================== 类型定义 ==================
+
+export interface CoCreationVideo {
+  bvid: string;
+  title: string;
+}
+
+/** 与某位合作者的合作关系 */
+export interface CoCreation {
+  partner: {
+    mid: number;
+    name: string;
+    face: string;
+  };
+  videos: CoCreationVideo[];
+}
+
+export interface CoCreationOptions extends RequestOptions {
+  /** 扫描的最近投稿数，默认 30（一页） */
+  recentCount?: number;
+}
+
+// 投稿列表每页上限
+const VIDEOS_PAGE_SIZE = 30;
+
+/**
+ * 单个视频详情失败时是否应终止整个扫描
+ */
+const isFatalError = (error: unknown): boolean =>
+  error instanceof RequestCancelledError ||
+  error instanceof RiskControlError ||
+  error instanceof NotLoggedInError;
+
+/**
+ * 将扫描结果写入本地关系网络，写入失败不影响扫描结果
+ */
+const recordCoCreations = async (
+  mid: number,
+  coCreations: CoCreation[],
+  scannedVideos: number,
+): Promise<void> => {
+  const observedAt = Date.now();
+  try {
+    await graphStore.record(
+      coCreations.map(({ partner }) => ({ ...partner, updatedAt: observedAt })),
+      coCreations.map(({ partner, videos }) => ({
+        source: mid,
+        target: partner.mid,
+        type: "co_creation",
+        provenance: "video_staff",
+        videos,
+      })),
+      observedAt,
+    );
+    await graphStore.setCrawlState({
+      mid,
+      kind: "co_creation",
+      status: "complete",
+      fetched: scannedVideos,
+      total: scannedVideos,
+      updatedAt: observedAt,
+    });
+  } catch (error) {
+    logger.warn("写入本地关系网络失败:", error);
+  }
+};
+
+// ================== 爬取 ==================
+
+/**
+ * 查找 UP 主最近投稿中的合作者
+ * @returns 按合作视频数倒序的合作关系，不含 UP 主本人
+ */
+export const findCoCreations = async (
+  mid: number,
+  options: CoCreationOptions = {},
+): Promise<CoCreation[]> => {
+  const { recentCount = VIDEOS_PAGE_SIZE, ...requestOptions } = options;
+
+  const unionVideos: CoCreationVideo[] = [];
+  for (let pn = 1; (pn - 1) * VIDEOS_PAGE_SIZE < recentCount; pn++) {
+    const { data } = await getUserVideos(
+      { mid, ps: VIDEOS_PAGE_SIZE, pn },
+      requestOptions,
+    );
+    const videos = data.list.vlist.slice(
+      0,
+      recentCount - (pn - 1) * VIDEOS_PAGE_SIZE,
+    );
+    videos
+      .filter((video) => video.is_union_video === 1)
+      .forEach((video) =>
+        unionVideos.push({ bvid: video.bvid, title: video.title }),
+      );
+    if (pn * VIDEOS_PAGE_SIZE >= data.page.count) break;
+  }
+
+  const partners = new Map<number, CoCreation>();
+  for (const video of unionVideos) {
+    let staff;
+    try {
+      staff = (await getVideoView(video.bvid, requestOptions)).data.staff;
+    } catch (error) {
+      if (isFatalError(error)) throw error;
+      // 视频已删除或不可见时跳过
+      logger.warn(
+        `获取视频详情失败 (${video.bvid}): ${describeApiError(error)}`,
+      );
+      continue;
+    }
+
+    staff
+      .filter((member) => member.mid !== mid)
+      .forEach((member) => {
+        const existing = partners.get(member.mid);
+        if (existing) {
+          existing.videos.push(video);
+        } else {
+          partners.set(member.mid, {
+            partner: { mid: member.mid, name: member.name, face: member.face },
+            videos: [video],
+          });
+        }
+      });
+  }
+
+  const coCreations = [...partners.values()].sort(
+    (a, b) => b.videos.length - a.videos.length,
+  );
+  recordCoCreations(mid, coCreations, unionVideos.length);
+  return coCreations;
+};
@@ -0,0 +1,238 @@
+/**
+ * Bilibili API 错误类型
+ * 携带 B站业务 code、HTTP 状态码、接口地址和目标 vmid，
+ * 调用方通过 instanceof 区分错误原因，而不是匹配错误信息字符串
+ */
+
+export interface BiliApiErrorContext {
+  /** B站业务 code */
+  code?: number;
+  /** HTTP 状态码 */
+  status?: number;
+  /** 接口路径，如 /x/relation/followings */
+  endpoint?: string;
+  /** 请求的目标用户 */
+  vmid?: number;
+}
+
+export type BiliApiErrorKind =
+  | "api"
+  | "risk_control"
+  | "not_logged_in"
+  | "privacy"
+  | "user_not_found"
+  | "network"
+  | "timeout"
+  | "http"
+  | "parse"
+  | "cancelled"
+  | "cache_only";
+
+/**
+ * API 错误基类
+ */
+export class BiliApiError extends Error {
+  readonly kind: BiliApiErrorKind = "api";
+  code?: number;
+  status?: number;
+  endpoint?: string;
+  vmid?: number;
+
+  constructor(message: string, context: BiliApiErrorContext = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = context.code;
+    this.status = context.status;
+    this.endpoint = context.endpoint;
+    this.vmid = context.vmid;
+  }
+
+  /**
+   * 是否值得重试
+   */
+  get retryable(): boolean {
+    return false;
+  }
+
+  /**
+   * 补充缺失的上下文（已有字段不覆盖）
+   */
+  withContext(context: BiliApiErrorContext): this {
+    this.code ??= context.code;
+    this.status ??= context.status;
+    this.endpoint ??= context.endpoint;
+    this.vmid ??= context.vmid;
+    return this;
+  }
+}
+
+/**
+ * 风控拦截（-412 请求被拦截 / -352 风控校验失败）
+ */
+export class RiskControlError extends BiliApiError {
+  readonly kind = "risk_control";
+
+  constructor(context: BiliApiErrorContext = {}) {
+    super("请求被风控限制，请稍后重试", context);
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * 未登录（-101）
+ */
+export class NotLoggedInError extends BiliApiError {
+  readonly kind = "not_logged_in";
+
+  constructor(context: BiliApiErrorContext = {}) {
+    super("用户未登录", context);
+  }
+}
+
+/**
+ * 用户设置了关系列表隐私（22115 等）
+ */
+export class PrivacyRestrictedError extends BiliApiError {
+  readonly kind = "privacy";
+
+  constructor(context: BiliApiErrorContext = {}) {
+    super("用户已设置隐私，无法查看", context);
+  }
+}
+
+/**
+ * 用户不存在或已注销（-404 / -626）
+ */
+export class UserNotFoundError extends BiliApiError {
+  readonly kind = "user_not_found";
+
+  constructor(context: BiliApiErrorContext = {}) {
+    super("用户不存在或已注销", context);
+  }
+}
+
+/**
+ * 网络错误（连接失败等）
+ */
+export class NetworkError extends BiliApiError {
+  readonly kind: BiliApiErrorKind = "network";
+
+  constructor(message = "网络请求失败", context: BiliApiErrorContext = {}) {
+    super(message, context);
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * 请求超时
+ */
+export class TimeoutError extends NetworkError {
+  readonly kind = "timeout";
+
+  constructor(context: BiliApiErrorContext = {}) {
+    super("请求超时", context);
+  }
+}
+
+/**
+ * HTTP 非 2xx 响应
+ */
+export class HttpError extends BiliApiError {
+  readonly kind = "http";
+
+  constructor(statusText: string, context: BiliApiErrorContext = {}) {
+    super(`HTTP 错误: ${context.status} ${statusText}`, context);
+  }
+
+  get retryable(): boolean {
+    // HTTP 429 (Too Many Requests) 或 5xx 错误可重试
+    return !!this.status && (this.status === 429 || this.status >= 500);
+  }
+}
+
+/**
+ * 响应不是合法 JSON
+ */
+export class ResponseParseError extends BiliApiError {
+  readonly kind = "parse";
+
+  constructor(context: BiliApiErrorContext = {}) {
+    super("响应解析失败", context);
+  }
+}
+
+/**
+ * 请求被调用方通过 AbortSignal 取消
+ */
+export class RequestCancelledError extends BiliApiError {
+  readonly kind = "cancelled";
+
+  constructor(context: BiliApiErrorContext = {}) {
+    super("请求已取消", context);
+  }
+}
+
+/**
+ * 正在查看其他账号的缓存时，缓存未命中或发起写操作
+ * 请求会以登录账号的身份发出，结果不属于正在查看的账号
+ */
+export class CacheOnlyError extends BiliApiError {
+  readonly kind = "cache_only";
+
+  constructor(context: BiliApiErrorContext = {}) {
+    super("正在查看其他账号的缓存，该数据未缓存", context);
+  }
+}
+
+/**
+ * 若 signal 已中止则抛出取消错误
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+};
+
+// ================== 业务 code 映射 ==================
+
+const RISK_CONTROL_CODES = new Set([-412, -352]);
+const NOT_LOGGED_IN_CODES = new Set([-101]);
+const PRIVACY_CODES = new Set([22115]);
+const USER_NOT_FOUND_CODES = new Set([-404, -626]);
+
+/**
+ * 根据 B站业务 code 创建对应的错误
+ */
+export const createApiError = (
+  code: number,
+  message: string | undefined,
+  context: BiliApiErrorContext = {},
+): BiliApiError => {
+  const ctx = { ...context, code };
+
+  if (RISK_CONTROL_CODES.has(code)) return new RiskControlError(ctx);
+  if (NOT_LOGGED_IN_CODES.has(code)) return new NotLoggedInError(ctx);
+  if (PRIVACY_CODES.has(code)) return new PrivacyRestrictedError(ctx);
+  if (USER_NOT_FOUND_CODES.has(code)) return new UserNotFoundError(ctx);
+
+  return new BiliApiError(message || "请求失败", ctx);
+};
+
+/**
+ * 获取适合展示给用户的错误原因
+ */
+export const describeApiError = (error: unknown): string => {
+  if (error instanceof BiliApiError) {
+    return error.code !== undefined && error.kind === "api"
+      ? `${error.message} (${error.code})`
+      : error.message;
+  }
+  if (error instanceof Error) return error.message;
+  return String(error);
+};
@@ -0,0 +1,654 @@
+/**
+ * 规范化关系存储
+ * - 用户、关系边和抓取进度分别存放在 IndexedDB 的 users / edges / crawlState 中
+ * - 按 source / target 索引查询，无需重新解析缓存的接口响应即可回答「谁关注了 X」
+ * - 同一关系重复观察时覆盖，observedAt 记录最近一次观察时间；来源只升级不降级（见 mergeProvenance）
+ * - 共同关注取决于登录账号：抓取进度按账号分开记录，关系记下观察到它的账号，完整抓取只撤销本账号的观察
+ * - 各标签页抓取到的关系都会写入，关系图可从本地网络直接打开，只抓取缺失或过期的部分
+ */
+
+import {
+  CrawlKind,
+  CrawlState,
+  EdgeProvenance,
+  EdgeType,
+  StoredEdge,
+  StoredUser,
+  getBilibiliDB,
+  getCrawlKey,
+  getEdgeId,
+  mergeProvenance,
+} from "../utils/bilibiliDB";
+import logger from "../utils/logger";
+
+// ================== 类型定义 ==================
+
+export type { CrawlKind, CrawlState, StoredEdge, StoredUser };
+
+/** 待写入的关系，id 和 observedAt 由存储生成 */
+export interface EdgeInput {
+  source: number;
+  target: number;
+  type: EdgeType;
+  provenance: EdgeProvenance;
+  videos?: StoredEdge["videos"];
+  /** 共同关注观察到该关系时的登录账号 */
+  viewer?: number;
+}
+
+/** 关系列表中的用户（关注、粉丝、共同关注接口的列表项） */
+export interface ListedUser {
+  mid: number;
+  uname: string;
+  face: string;
+  sign?: string;
+}
+
+/** 一次抓取的结果，用于记录抓取进度 */
+export type CrawlProgress = Pick<
+  CrawlState,
+  "status" | "fetched" | "total" | "updatedAt" | "viewer"
+>;
+
+/** 深度探索过的用户在本地网络中的关系 */
+export interface ExploredRelations {
+  followings: number[];
+  followers: number[];
+  /** 抓取仍新鲜，无需重新探索 */
+  fresh: boolean;
+}
+
+/** 以某个用户为中心的本地关系网络 */
+export interface NetworkSnapshot {
+  /** 快照中出现的所有用户 */
+  users: Map<number, StoredUser>;
+  /** 中心用户关注的人 */
+  followings: number[];
+  /** 中心用户关注的人之间的关注关系：键关注了值中的用户 */
+  commonFollowings: Map<number, number[]>;
+  /** 以中心用户登录时抓取的共同关注仍新鲜、无需重新请求的用户 */
+  freshCommon: Set<number>;
+  /** 抓取过关注或粉丝列表的其他用户 */
+  explored: Map<number, ExploredRelations>;
+  /** 扫描过投稿的用户的合作关系 */
+  coCreations: StoredEdge[];
+  /** 投稿扫描仍新鲜、无需重新扫描的用户 */
+  freshCoCreation: Set<number>;
+}
+
+/** 导出的全部用户、关系和抓取进度 */
+export interface GraphStoreDump {
+  users: StoredUser[];
+  edges: StoredEdge[];
+  crawlState: CrawlState[];
+}
+
+/** 导入时各存储写入的记录数 */
+export type GraphStoreImportStats = Record<keyof GraphStoreDump, number>;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** 各类关系抓取后多久视为过期 */
+const STALE_AFTER_MS: Record<CrawlKind, number> = {
+  followings: DAY,
+  fans: DAY,
+  // 与共同关注、投稿详情的接口缓存一致
+  common_followings: 30 * DAY,
+  co_creation: 30 * DAY,
+};
+
+/**
+ * 合并观察到关系的登录账号
+ */
+const mergeViewers = (
+  existing: number[] | undefined,
+  observed: number[] | undefined,
+): number[] => [...new Set([...(existing ?? []), ...(observed ?? [])])];
+
+/**
+ * 替换观察到关系的登录账号，为空时移除该字段
+ */
+const withViewers = (edge: StoredEdge, viewers: number[]): StoredEdge => {
+  const { viewers: _previous, ...rest } = edge;
+  return viewers.length > 0 ? { ...rest, viewers } : rest;
+};
+
+// ================== 关系存储 ==================
+
+class GraphStore {
+  /**
+   * 写入用户和关系（同一事务，已存在的记录被覆盖，关系保留可信度更高的来源）
+   */
+  async record(
+    users: StoredUser[],
+    edges: EdgeInput[],
+    observedAt: number = Date.now(),
+  ): Promise<void> {
+    try {
+      const db = await getBilibiliDB();
+      const tx = db.transaction(["users", "edges"], "readwrite");
+      const userStore = tx.objectStore("users");
+      const edgeStore = tx.objectStore("edges");
+      users.forEach((user) => userStore.put(user));
+      await Promise.all(
+        edges.map(async (edge) => {
+          const { viewer, ...input } = edge;
+          const id = getEdgeId(edge.type, edge.source, edge.target);
+          const existing = await edgeStore.get(id);
+          await edgeStore.put(
+            withViewers(
+              {
+                ...input,
+                id,
+                observedAt,
+                provenance: mergeProvenance(
+                  existing?.provenance,
+                  edge.provenance,
+                ),
+              },
+              mergeViewers(
+                existing?.viewers,
+                viewer === undefined ? undefined : [viewer],
+              ),
+            ),
+          );
+        }),
+      );
+      await tx.done;
+    } catch (error) {
+      logger.error("写入关系存储失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 记录某个用户的关系列表
+   * @param provenance fans 表示列表中的用户关注了 vmid，其余表示 vmid 关注了列表中的用户
+   * @param viewer 共同关注抓取时的登录账号
+   */
+  recordUserList(
+    vmid: number,
+    list: ListedUser[],
+    provenance: Exclude<EdgeProvenance, "video_staff">,
+    observedAt: number = Date.now(),
+    viewer?: number,
+  ): Promise<void> {
+    return this.record(
+      list.map((item) => ({
+        mid: item.mid,
+        name: item.uname,
+        face: item.face,
+        sign: item.sign,
+        updatedAt: observedAt,
+      })),
+      list.map((item) => ({
+        source: provenance === "fans" ? item.mid : vmid,
+        target: provenance === "fans" ? vmid : item.mid,
+        type: "follow",
+        provenance,
+        viewer,
+      })),
+      observedAt,
+    );
+  }
+
+  /**
+   * 批量读取用户，不存在的用户不出现在结果中
+   */
+  async getUsers(mids: number[]): Promise<Map<number, StoredUser>> {
+    const result = new Map<number, StoredUser>();
+    try {
+      const db = await getBilibiliDB();
+      const tx = db.transaction("users");
+      const users = await Promise.all(mids.map((mid) => tx.store.get(mid)));
+      users.forEach((user) => user && result.set(user.mid, user));
+    } catch (error) {
+      logger.error("读取用户失败:", error);
+    }
+    return result;
+  }
+
+  /**
+   * 关注了该用户的人（以该用户为终点的关注边）
+   */
+  getFollowers(mid: number): Promise<StoredEdge[]> {
+    return this.getEdges("target", mid, "follow");
+  }
+
+  /**
+   * 该用户关注的人（以该用户为起点的关注边）
+   */
+  getFollowings(mid: number): Promise<StoredEdge[]> {
+    return this.getEdges("source", mid, "follow");
+  }
+
+  /**
+   * 与该用户有合作投稿的关系（无方向，两端都要查）
+   */
+  async getCoCreations(mid: number): Promise<StoredEdge[]> {
+    const [outgoing, incoming] = await Promise.all([
+      this.getEdges("source", mid, "co_creation"),
+      this.getEdges("target", mid, "co_creation"),
+    ]);
+    return [...outgoing, ...incoming];
+  }
+
+  /**
+   * 读取抓取进度，未抓取过时返回 null
+   * @param viewer 共同关注抓取时的登录账号
+   */
+  async getCrawlState(
+    kind: CrawlKind,
+    mid: number,
+    viewer?: number,
+  ): Promise<CrawlState | null> {
+    try {
+      const db = await getBilibiliDB();
+      return (
+        (await db.get("crawlState", getCrawlKey(kind, mid, viewer))) ?? null
+      );
+    } catch (error) {
+      logger.error("读取抓取进度失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 记录抓取进度
+   */
+  async setCrawlState(state: Omit<CrawlState, "key">): Promise<void> {
+    try {
+      const db = await getBilibiliDB();
+      await db.put("crawlState", {
+        ...state,
+        key: getCrawlKey(state.kind, state.mid, state.viewer),
+      });
+    } catch (error) {
+      logger.error("写入抓取进度失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 完成一次关系列表抓取并记录进度
+   * 完整抓取时删除列表中已不存在的关注关系
+   * 共同关注只是对方关注的子集，只撤销同一登录账号通过共同关注的观察，没有账号观察时才删除；
+   * 旧版未记录账号的关系无法判断归属，保留到下次完整抓取对方的关注列表
+   * @param seen 本次抓取到的全部用户
+   */
+  async finishCrawl(
+    kind: Exclude<CrawlKind, "co_creation">,
+    mid: number,
+    seen: number[],
+    progress: CrawlProgress,
+  ): Promise<void> {
+    try {
+      const db = await getBilibiliDB();
+      const tx = db.transaction(["edges", "crawlState"], "readwrite");
+      if (progress.status === "complete") {
+        const edgeStore = tx.objectStore("edges");
+        const seenSet = new Set(seen);
+        // 粉丝列表中是对方关注 mid，其余都是 mid 关注对方
+        const incoming = kind === "fans";
+        const edges = await edgeStore
+          .index(incoming ? "target" : "source")
+          .getAll(mid);
+        edges
+          .filter(
+            (edge) =>
+              edge.type === "follow" &&
+              !seenSet.has(incoming ? edge.source : edge.target),
+          )
+          .forEach((edge) => {
+            if (kind !== "common_followings") {
+              edgeStore.delete(edge.id);
+              return;
+            }
+            const { viewer } = progress;
+            if (
+              edge.provenance !== "common_followings" ||
+              viewer === undefined ||
+              !edge.viewers?.includes(viewer)
+            ) {
+              return;
+            }
+            const viewers = edge.viewers.filter(
+              (account) => account !== viewer,
+            );
+            if (viewers.length > 0) {
+              edgeStore.put(withViewers(edge, viewers));
+            } else {
+              edgeStore.delete(edge.id);
+            }
+          });
+      }
+      tx.objectStore("crawlState").put({
+        ...progress,
+        key: getCrawlKey(kind, mid, progress.viewer),
+        kind,
+        mid,
+      });
+      await tx.done;
+    } catch (error) {
+      logger.error("写入抓取进度失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 抓取是否仍新鲜（未抓取过视为不新鲜）
+   */
+  isFresh(state: CrawlState | null | undefined): boolean {
+    return !!state && Date.now() - state.updatedAt < STALE_AFTER_MS[state.kind];
+  }
+
+  /**
+   * 读取以某个用户为中心的本地关系网络：
+   * 中心用户的关注、关注之间的关系、深度探索过的用户的关注和粉丝，以及扫描过的合作关系
+   */
+  async getNetworkSnapshot(center: number): Promise<NetworkSnapshot> {
+    const snapshot: NetworkSnapshot = {
+      users: new Map(),
+      followings: [],
+      commonFollowings: new Map(),
+      freshCommon: new Set(),
+      explored: new Map(),
+      coCreations: [],
+      freshCoCreation: new Set(),
+    };
+
+    try {
+      const db = await getBilibiliDB();
+      const tx = db.transaction(["users", "edges", "crawlState"]);
+      const edgeStore = tx.objectStore("edges");
+      const getEdges = async (
+        index: "source" | "target",
+        mid: number,
+        type: EdgeType,
+      ) =>
+        (await edgeStore.index(index).getAll(mid)).filter(
+          (edge) => edge.type === type,
+        );
+
+      snapshot.followings = (await getEdges("source", center, "follow")).map(
+        (edge) => edge.target,
+      );
+      const followingSet = new Set(snapshot.followings);
+      await Promise.all(
+        snapshot.followings.map(async (mid) => {
+          const targets = (await getEdges("source", mid, "follow"))
+            .map((edge) => edge.target)
+            .filter((target) => followingSet.has(target));
+          if (targets.length > 0) {
+            snapshot.commonFollowings.set(mid, targets);
+          }
+        }),
+      );
+
+      // 按用户汇总抓取进度
+      const states = await tx.objectStore("crawlState").getAll();
+      const exploredStates = new Map<number, CrawlState[]>();
+      const scanned: number[] = [];
+      states.forEach((state) => {
+        if (state.kind === "common_followings") {
+          // 其他账号（及旧版未记录账号）抓取的共同关注不是与中心用户的交集
+          if (state.viewer === center && this.isFresh(state)) {
+            snapshot.freshCommon.add(state.mid);
+          }
+        } else if (state.kind === "co_creation") {
+          scanned.push(state.mid);
+          if (this.isFresh(state)) snapshot.freshCoCreation.add(state.mid);
+        } else if (state.mid !== center) {
+          exploredStates.set(state.mid, [
+            ...(exploredStates.get(state.mid) ?? []),
+            state,
+          ]);
+        }
+      });
+
+      await Promise.all(
+        [...exploredStates].map(async ([mid, midStates]) => {
+          const [followings, followers] = await Promise.all([
+            getEdges("source", mid, "follow"),
+            getEdges("target", mid, "follow"),
+          ]);
+          snapshot.explored.set(mid, {
+            followings: followings.map((edge) => edge.target),
+            followers: followers.map((edge) => edge.source),
+            fresh: midStates.every((state) => this.isFresh(state)),
+          });
+        }),
+      );
+
+      const coCreations = new Map<string, StoredEdge>();
+      await Promise.all(
+        scanned.map(async (mid) => {
+          const edges = await Promise.all([
+            getEdges("source", mid, "co_creation"),
+            getEdges("target", mid, "co_creation"),
+          ]);
+          edges.flat().forEach((edge) => coCreations.set(edge.id, edge));
+        }),
+      );
+      snapshot.coCreations = [...coCreations.values()];
+
+      const mids = new Set([center, ...snapshot.followings]);
+      snapshot.explored.forEach((relations, mid) => {
+        mids.add(mid);
+        relations.followings.forEach((id) => mids.add(id));
+        relations.followers.forEach((id) => mids.add(id));
+      });
+      snapshot.coCreations.forEach((edge) => {
+        mids.add(edge.source);
+        mids.add(edge.target);
+      });
+      const userStore = tx.objectStore("users");
+      const users = await Promise.all(
+        [...mids].map((mid) => userStore.get(mid)),
+      );
+      users.forEach((user) => user && snapshot.users.set(user.mid, user));
+    } catch (error) {
+      logger.error("读取本地关系网络失败:", error);
+    }
+    return snapshot;
+  }
+
+  /**
+   * 导出全部用户、关系和抓取进度
+   */
+  async exportAll(): Promise<GraphStoreDump> {
+    const db = await getBilibiliDB();
+    const tx = db.transaction(["users", "edges", "crawlState"]);
+    const [users, edges, crawlState] = await Promise.all([
+      tx.objectStore("users").getAll(),
+      tx.objectStore("edges").getAll(),
+      tx.objectStore("crawlState").getAll(),
+    ]);
+    return { users, edges, crawlState };
+  }
+
+  /**
+   * 导入用户、关系和抓取进度（同一事务）
+   * @param overwrite 为 false 时同一记录只保留更新的一份
+   */
+  async importAll(
+    dump: GraphStoreDump,
+    overwrite: boolean,
+  ): Promise<GraphStoreImportStats> {
+    const db = await getBilibiliDB();
+    const tx = db.transaction(["users", "edges", "crawlState"], "readwrite");
+    const userStore = tx.objectStore("users");
+    const edgeStore = tx.objectStore("edges");
+    const crawlStore = tx.objectStore("crawlState");
+
+    /** 逐条写入，合并时跳过本地更新的记录 */
+    const putNewer = async <T>(
+      values: T[],
+      getExisting: (value: T) => Promise<T | undefined>,
+      put: (value: T, existing: T | undefined) => unknown,
+      updatedAt: (value: T) => number,
+    ): Promise<number> => {
+      let written = 0;
+      for (const value of values) {
+        const existing = overwrite ? undefined : await getExisting(value);
+        if (existing && updatedAt(existing) >= updatedAt(value)) continue;
+        put(value, existing);
+        written++;
+      }
+      return written;
+    };
+
+    const stats: GraphStoreImportStats = {
+      users: await putNewer(
+        dump.users,
+        (user) => userStore.get(user.mid),
+        (user) => userStore.put(user),
+        (user) => user.updatedAt,
+      ),
+      edges: await putNewer(
+        dump.edges,
+        (edge) => edgeStore.get(edge.id),
+        (edge, existing) =>
+          edgeStore.put(
+            withViewers(
+              {
+                ...edge,
+                provenance: mergeProvenance(
+                  existing?.provenance,
+                  edge.provenance,
+                ),
+              },
+              mergeViewers(existing?.viewers, edge.viewers),
+            ),
+          ),
+        (edge) => edge.observedAt,
+      ),
+      crawlState: await putNewer(
+        dump.crawlState,
+        (state) => crawlStore.get(state.key),
+        (state) => crawlStore.put(state),
+        (state) => state.updatedAt,
+      ),
+    };
+    await tx.done;
+    return stats;
+  }
+
+  /**
+   * 清空用户、关系和抓取进度
+   */
+  async clear(): Promise<void> {
+    try {
+      const db = await getBilibiliDB();
+      const tx = db.transaction(["users", "edges", "crawlState"], "readwrite");
+      await Promise.all([
+        tx.objectStore("users").clear(),
+        tx.objectStore("edges").clear(),
+        tx.objectStore("crawlState").clear(),
+        tx.done,
+      ]);
+    } catch (error) {
+      logger.error("清空关系存储失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 丢弃账号的共同关注抓取进度：关注列表变化后交集随之变化，下次打开关系图时重新请求
+   */
+  async expireCommonFollowings(viewer: number): Promise<void> {
+    try {
+      const db = await getBilibiliDB();
+      const tx = db.transaction("crawlState", "readwrite");
+      const states = await tx.store.getAll();
+      states
+        .filter(
+          (state) =>
+            state.kind === "common_followings" && state.viewer === viewer,
+        )
+        .forEach((state) => tx.store.delete(state.key));
+      await tx.done;
+    } catch (error) {
+      logger.error("清除共同关注抓取进度失败:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * 清除账号通过共同关注得到的数据：该账号的共同关注抓取进度，以及只由该账号观察到的关系
+   */
+  purgeAccount(mid: number): Promise<void> {
+    return this.purgeViewer(mid);
+  }
+
+  /**
+   * 清除旧版本写入的、未记录登录账号的共同关注抓取进度和关系
+   */
+  purgeLegacy(): Promise<void> {
+    return this.purgeViewer(null);
+  }
+
+  private async purgeViewer(viewer: number | null): Promise<void> {
+    try {
+      const db = await getBilibiliDB();
+      const tx = db.transaction(["edges", "crawlState"], "readwrite");
+      const edgeStore = tx.objectStore("edges");
+      const crawlStore = tx.objectStore("crawlState");
+      const [edges, states] = await Promise.all([
+        edgeStore.getAll(),
+        crawlStore.getAll(),
+      ]);
+
+      states
+        .filter(
+          (state) =>
+            state.kind === "common_followings" &&
+            (viewer === null
+              ? state.viewer === undefined
+              : state.viewer === viewer),
+        )
+        .forEach((state) => crawlStore.delete(state.key));
+
+      edges.forEach((edge) => {
+        if (viewer === null) {
+          if (
+            edge.provenance === "common_followings" &&
+            !edge.viewers?.length
+          ) {
+            edgeStore.delete(edge.id);
+          }
+          return;
+        }
+        if (!edge.viewers?.includes(viewer)) return;
+        const viewers = edge.viewers.filter((account) => account !== viewer);
+        if (viewers.length === 0 && edge.provenance === "common_followings") {
+          edgeStore.delete(edge.id);
+        } else {
+          edgeStore.put(withViewers(edge, viewers));
+        }
+      });
+      await tx.done;
+    } catch (error) {
+      logger.error("清除账号的关系数据失败:", error);
+      throw error;
+    }
+  }
+
+  private async getEdges(
+    index: "source" | "target",
+    mid: number,
+    type: EdgeType,
+  ): Promise<StoredEdge[]> {
+    try {
+      const db = await getBilibiliDB();
+      const edges = await db.getAllFromIndex("edges", index, mid);
+      return edges.filter((edge) => edge.type === type);
+    } catch (error) {
+      logger.error("读取关系失败:", error);
+      return [];
+    }
+  }
+}
+
+// 导出单例
+export const graphStore = new GraphStore();
@@ -0,0 +1,188 @@
+/**
+ * 用户资料存储与后台补全队列
+ * - 列表和图中只有昵称、头像，粉丝数、等级、认证等资料按需从名片接口补全
+ * - 补全请求以后台优先级经全局调度器限速，不影响交互请求
+ * - 名片接口失败时退回 relation/stat，至少补全关注数和粉丝数
+ * - 接口响应由请求层缓存，重新打开面板时直接命中缓存
+ */
+
+import { getRelationStat, getUserCard } from "./biliApi";
+import {
+  NotLoggedInError,
+  RequestCancelledError,
+  describeApiError,
+} from "./errors";
+import logger from "../utils/logger";
+
+// ================== 类型定义 ==================
+
+export interface UserProfile {
+  mid: number;
+  /** 以下资料来自名片接口，退回 relation/stat 时为空 */
+  name?: string;
+  sex?: string;
+  level?: number;
+  /** 认证说明，未认证时为空字符串 */
+  officialTitle?: string;
+  follower: number;
+  following: number;
+  updatedAt: number;
+}
+
+type ProfileListener = (profiles: ReadonlyMap<number, UserProfile>) => void;
+
+// 同时进行中的补全请求数，其余在队列中等待
+const MAX_CONCURRENCY = 2;
+// 通知节流间隔，避免大量补全完成时频繁重渲染
+const NOTIFY_INTERVAL_MS = 500;
+
+// ================== 资料存储 ==================
+
+class ProfileStore {
+  private profiles = new Map<number, UserProfile>();
+  private queue: number[] = [];
+  private queued = new Set<number>();
+  private inFlight = new Set<number>();
+  // 两个接口都失败的用户，本次会话内不再重试
+  private failed = new Set<number>();
+  private listeners = new Set<ProfileListener>();
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  get(mid: number): UserProfile | undefined {
+    return this.profiles.get(mid);
+  }
+
+  /**
+   * 将用户加入补全队列，已有资料或已在队列中的用户会被跳过
+   * @returns 取消函数：从队列中移除这些用户中尚未开始的部分
+   */
+  enqueue(mids: number[]): () => void {
+    const added: number[] = [];
+    for (const mid of mids) {
+      if (
+        this.profiles.has(mid) ||
+        this.queued.has(mid) ||
+        this.inFlight.has(mid) ||
+        this.failed.has(mid)
+      ) {
+        continue;
+      }
+      this.queue.push(mid);
+      this.queued.add(mid);
+      added.push(mid);
+    }
+    this.pump();
+
+    return () => {
+      const removed = new Set(added.filter((mid) => this.queued.delete(mid)));
+      if (removed.size > 0) {
+        this.queue = this.queue.filter((mid) => !removed.has(mid));
+      }
+    };
+  }
+
+  /**
+   * 订阅资料变化，返回取消订阅函数
+   */
+  subscribe(listener: ProfileListener): () => void {
+    this.listeners.add(listener);
+    listener(new Map(this.profiles));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 清空已补全的资料和失败记录（不影响进行中的请求）
+   */
+  clear(): void {
+    this.profiles.clear();
+    this.failed.clear();
+    this.notify();
+  }
+
+  private pump(): void {
+    while (this.inFlight.size < MAX_CONCURRENCY && this.queue.length > 0) {
+      const mid = this.queue.shift()!;
+      this.queued.delete(mid);
+      this.inFlight.add(mid);
+      this.load(mid).finally(() => {
+        this.inFlight.delete(mid);
+        this.pump();
+      });
+    }
+  }
+
+  private async load(mid: number): Promise<void> {
+    try {
+      this.set(await this.fetchProfile(mid));
+    } catch (error) {
+      if (error instanceof NotLoggedInError) {
+        // 未登录时队列中的请求都会失败，直接清空
+        this.queue.forEach((queuedMid) => this.queued.delete(queuedMid));
+        this.queue = [];
+      }
+      if (error instanceof RequestCancelledError) return;
+      this.failed.add(mid);
+      logger.warn(`补全用户资料失败 (mid: ${mid}): ${describeApiError(error)}`);
+    }
+  }
+
+  private async fetchProfile(mid: number): Promise<UserProfile> {
+    try {
+      const { card } = (await getUserCard(mid, { priority: "background" }))
+        .data;
+      return {
+        mid,
+        name: card.name,
+        sex: card.sex,
+        level: card.level_info.current_level,
+        officialTitle: card.Official.title,
+        follower: card.fans,
+        following: card.attention,
+        updatedAt: Date.now(),
+      };
+    } catch (error) {
+      if (
+        error instanceof RequestCancelledError ||
+        error instanceof NotLoggedInError
+      ) {
+        throw error;
+      }
+      logger.warn(
+        `获取名片失败，改用关系统计 (mid: ${mid}): ${describeApiError(error)}`,
+      );
+    }
+
+    const stat = (await getRelationStat(mid, { priority: "background" })).data;
+    return {
+      mid,
+      follower: stat.follower,
+      following: stat.following,
+      updatedAt: Date.now(),
+    };
+  }
+
+  private set(profile: UserProfile): void {
+    this.profiles.set(profile.mid, profile);
+    this.scheduleNotify();
+  }
+
+  private scheduleNotify(): void {
+    if (this.notifyTimer || this.listeners.size === 0) return;
+    this.notifyTimer = setTimeout(() => {
+      this.notifyTimer = null;
+      this.notify();
+    }, NOTIFY_INTERVAL_MS);
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    // 每次通知传出新的 Map，订阅方可通过引用变化感知更新
+    const snapshot = new Map(this.profiles);
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
+
+// 导出单例
+export const profileStore = new ProfileStore();
@@ -0,0 +1,227 @@
+/**
+ * 关注关系批量操作
+ * - 执行前必须经过确认回调，确认被拒绝时不发出任何请求
+ * - 逐个串行执行，每个请求都经全局调度器限速，风控熔断时自动暂停等待
+ * - 单个用户失败不中断批量；取消或未登录时停止并返回已完成的部分
+ * - 逐个修改时不清理关系缓存，批量结束后统一清理一次
+ */
+
+import {
+  RelationWriteOptions,
+  followUser,
+  invalidateRelationCache,
+  quietFollowUser,
+  setUserTags,
+  unblockUser,
+  unfollowUser,
+  unquietFollowUser,
+} from "./biliApi";
+import {
+  NotLoggedInError,
+  RequestCancelledError,
+  describeApiError,
+  throwIfAborted,
+} from "./errors";
+import logger from "../utils/logger";
+
+// ================== 类型定义 ==================
+
+export interface BatchTarget {
+  mid: number;
+  uname?: string;
+  /** 当前所在分组（FansItem.tag），分组操作需要 */
+  tag?: number[] | null;
+}
+
+export interface BatchSummary {
+  /** 操作描述，如「取消关注」 */
+  action: string;
+  targets: BatchTarget[];
+}
+
+export interface BatchResult {
+  /** 用户是否确认执行 */
+  confirmed: boolean;
+  succeeded: number[];
+  failed: { mid: number; reason: string }[];
+  /** 未执行的用户（未确认、取消或中途停止） */
+  skipped: number[];
+  /** 中途停止的原因 */
+  stoppedReason?: string;
+}
+
+export interface BatchOptions extends Omit<
+  RelationWriteOptions,
+  "invalidateCache"
+> {
+  /** 执行前确认，返回 false 时不执行任何操作 */
+  confirm: (summary: BatchSummary) => boolean | Promise<boolean>;
+  onProgress?: (done: number, total: number) => void;
+}
+
+type BatchOperation = (
+  target: BatchTarget,
+  options: RelationWriteOptions,
+) => Promise<void>;
+
+// ================== 批量执行 ==================
+
+const runBatch = async (
+  action: string,
+  targets: BatchTarget[],
+  operation: BatchOperation,
+  options: BatchOptions,
+): Promise<BatchResult> => {
+  const { confirm, onProgress, ...rest } = options;
+  const requestOptions: RelationWriteOptions = {
+    ...rest,
+    invalidateCache: false,
+  };
+  const result: BatchResult = {
+    confirmed: false,
+    succeeded: [],
+    failed: [],
+    skipped: targets.map((target) => target.mid),
+  };
+  if (targets.length === 0) return result;
+
+  result.confirmed = await confirm({ action, targets });
+  if (!result.confirmed) return result;
+
+  logger.log(`开始批量${action}，共 ${targets.length} 人`);
+
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i];
+    try {
+      throwIfAborted(requestOptions.signal);
+      await operation(target, requestOptions);
+      result.succeeded.push(target.mid);
+    } catch (error) {
+      if (
+        error instanceof RequestCancelledError ||
+        error instanceof NotLoggedInError
+      ) {
+        result.skipped = targets.slice(i).map((t) => t.mid);
+        result.stoppedReason = describeApiError(error);
+        logger.warn(`批量${action}已停止: ${result.stoppedReason}`);
+        break;
+      }
+      result.failed.push({ mid: target.mid, reason: describeApiError(error) });
+    }
+    onProgress?.(i + 1, targets.length);
+  }
+
+  // 失败的修改也可能已在服务器生效，只要发出过请求就清理
+  await invalidateRelationCache();
+  if (result.stoppedReason) return result;
+
+  result.skipped = [];
+  logger.log(
+    `批量${action}完成: 成功 ${result.succeeded.length}，失败 ${result.failed.length}`,
+  );
+  return result;
+};
+
+/**
+ * 批量关注
+ */
+export const batchFollow = (
+  targets: BatchTarget[],
+  options: BatchOptions,
+): Promise<BatchResult> =>
+  runBatch("关注", targets, ({ mid }, opts) => followUser(mid, opts), options);
+
+/**
+ * 批量取消关注
+ */
+export const batchUnfollow = (
+  targets: BatchTarget[],
+  options: BatchOptions,
+): Promise<BatchResult> =>
+  runBatch(
+    "取消关注",
+    targets,
+    ({ mid }, opts) => unfollowUser(mid, opts),
+    options,
+  );
+
+/**
+ * 批量转为悄悄关注
+ */
+export const batchQuietFollow = (
+  targets: BatchTarget[],
+  options: BatchOptions,
+): Promise<BatchResult> =>
+  runBatch(
+    "悄悄关注",
+    targets,
+    ({ mid }, opts) => quietFollowUser(mid, opts),
+    options,
+  );
+
+/**
+ * 批量取消悄悄关注
+ */
+export const batchUnquietFollow = (
+  targets: BatchTarget[],
+  options: BatchOptions,
+): Promise<BatchResult> =>
+  runBatch(
+    "取消悄悄关注",
+    targets,
+    ({ mid }, opts) => unquietFollowUser(mid, opts),
+    options,
+  );
+
+/**
+ * 批量移出黑名单
+ */
+export const batchUnblock = (
+  targets: BatchTarget[],
+  options: BatchOptions,
+): Promise<BatchResult> =>
+  runBatch(
+    "移出黑名单",
+    targets,
+    ({ mid }, opts) => unblockUser(mid, opts),
+    options,
+  );
+
+/**
+ * 批量加入分组（保留原有分组）
+ */
+export const batchAddToGroup = (
+  targets: BatchTarget[],
+  tagid: number,
+  options: BatchOptions,
+): Promise<BatchResult> =>
+  runBatch(
+    "加入分组",
+    targets,
+    ({ mid, tag }, opts) => {
+      const tagids = new Set(tag ?? []);
+      tagids.add(tagid);
+      return setUserTags([mid], [...tagids], opts);
+    },
+    options,
+  );
+
+/**
+ * 批量移出分组（保留其他分组，全部移出后回到默认分组）
+ */
+export const batchRemoveFromGroup = (
+  targets: BatchTarget[],
+  tagid: number,
+  options: BatchOptions,
+): Promise<BatchResult> =>
+  runBatch(
+    "移出分组",
+    targets,
+    ({ mid, tag }, opts) =>
+      setUserTags(
+        [mid],
+        (tag ?? []).filter((id) => id !== tagid),
+        opts,
+      ),
+    options,
+  );
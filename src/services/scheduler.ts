@@ -0,0 +1,320 @@
+/**
+ * 全局请求调度器
+ * - 令牌桶限制请求速率
+ * - 并发上限
+ * - 优先级通道：交互请求（展开行、深度探索）优先于后台爬取
+ * - 队列快照与订阅，供 UI 展示等待中的请求
+ */
+
+import logger from "../utils/logger";
+import { RequestCancelledError } from "./errors";
+
+// ================== 类型定义 ==================
+
+/** 请求优先级，从高到低 */
+export type RequestPriority = "interactive" | "normal" | "background";
+
+const PRIORITY_ORDER: RequestPriority[] = [
+  "interactive",
+  "normal",
+  "background",
+];
+
+interface SchedulerConfig {
+  maxConcurrency: number; // 最大并发请求数
+  bucketCapacity: number; // 令牌桶容量（允许的突发请求数）
+  refillIntervalMs: number; // 每生成一个令牌的间隔
+}
+
+const DEFAULT_CONFIG: SchedulerConfig = {
+  maxConcurrency: 2,
+  bucketCapacity: 3,
+  refillIntervalMs: 300, // 平均 300ms 一个请求
+};
+
+export interface ScheduleOptions {
+  priority?: RequestPriority;
+  /** 展示用的描述，如接口路径 */
+  label?: string;
+  /** 去重/提权用的键，一般为完整 URL */
+  key?: string;
+  /** 中止信号：排队中的任务直接出队并拒绝 */
+  signal?: AbortSignal;
+}
+
+/** 队列中任务的公开信息 */
+export interface ScheduledTaskInfo {
+  id: number;
+  label: string;
+  priority: RequestPriority;
+  key?: string;
+  enqueuedAt: number;
+  startedAt?: number;
+}
+
+export interface SchedulerSnapshot {
+  running: ScheduledTaskInfo[];
+  pending: ScheduledTaskInfo[];
+  /** 各优先级等待数量 */
+  pendingByPriority: Record<RequestPriority, number>;
+  tokens: number;
+  /** 外部节流导致的暂停截止时间 */
+  pausedUntil: number | null;
+}
+
+interface QueuedTask extends ScheduledTaskInfo {
+  run: () => void;
+}
+
+type SnapshotListener = (snapshot: SchedulerSnapshot) => void;
+
+// ================== 调度器 ==================
+
+class RequestScheduler {
+  private config: SchedulerConfig;
+  private queues: Record<RequestPriority, QueuedTask[]> = {
+    interactive: [],
+    normal: [],
+    background: [],
+  };
+  private running = new Map<number, QueuedTask>();
+  private tokens: number;
+  private lastRefill = Date.now();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private nextId = 1;
+  private pausedUntil: number | null = null;
+  private rate = 1;
+  private listeners = new Set<SnapshotListener>();
+
+  constructor(config: Partial<SchedulerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.tokens = this.config.bucketCapacity;
+  }
+
+  /**
+   * 将任务加入队列，在获得令牌和并发名额后执行
+   */
+  schedule<T>(
+    task: () => Promise<T>,
+    options: ScheduleOptions = {},
+  ): Promise<T> {
+    const { priority = "normal", label = "request", key, signal } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestCancelledError());
+        return;
+      }
+
+      const onAbort = () => {
+        if (this.removeQueued(queued.id)) {
+          reject(new RequestCancelledError());
+          this.notify();
+        }
+      };
+
+      const queued: QueuedTask = {
+        id: this.nextId++,
+        label,
+        priority,
+        key,
+        enqueuedAt: Date.now(),
+        run: () => {
+          signal?.removeEventListener("abort", onAbort);
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.running.delete(queued.id);
+              this.notify();
+              this.pump();
+            });
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queues[priority].push(queued);
+      this.notify();
+      this.pump();
+    });
+  }
+
+  /**
+   * 从等待队列中移除任务
+   */
+  private removeQueued(id: number): boolean {
+    for (const priority of PRIORITY_ORDER) {
+      const queue = this.queues[priority];
+      const index = queue.findIndex((task) => task.id === id);
+      if (index !== -1) {
+        queue.splice(index, 1);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 提升等待中任务的优先级（如用户展开了正在后台加载的行）
+   * @returns 是否找到并提升了任务
+   */
+  promote(key: string, priority: RequestPriority): boolean {
+    const targetRank = PRIORITY_ORDER.indexOf(priority);
+
+    for (const current of PRIORITY_ORDER) {
+      if (PRIORITY_ORDER.indexOf(current) <= targetRank) continue;
+
+      const queue = this.queues[current];
+      const index = queue.findIndex((task) => task.key === key);
+      if (index !== -1) {
+        const [task] = queue.splice(index, 1);
+        task.priority = priority;
+        this.queues[priority].push(task);
+        logger.log(`请求已提权: ${task.label} -> ${priority}`);
+        this.notify();
+        this.pump();
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 获取当前队列快照
+   */
+  getSnapshot(): SchedulerSnapshot {
+    this.refill();
+    const toInfo = ({ run, ...info }: QueuedTask): ScheduledTaskInfo => ({
+      ...info,
+    });
+
+    return {
+      running: [...this.running.values()].map(toInfo),
+      pending: PRIORITY_ORDER.flatMap((p) => this.queues[p].map(toInfo)),
+      pendingByPriority: {
+        interactive: this.queues.interactive.length,
+        normal: this.queues.normal.length,
+        background: this.queues.background.length,
+      },
+      tokens: Math.floor(this.tokens),
+      pausedUntil: this.pausedUntil,
+    };
+  }
+
+  /**
+   * 订阅队列变化，返回取消订阅函数
+   */
+  subscribe(listener: SnapshotListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getSnapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 更新配置
+   */
+  updateConfig(config: Partial<SchedulerConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.tokens = Math.min(this.tokens, this.config.bucketCapacity);
+    this.pump();
+  }
+
+  /**
+   * 外部节流：暂停派发到指定时间，并按比例降低令牌生成速率
+   * @param pausedUntil 暂停截止时间戳，null 表示不暂停
+   * @param rate 令牌生成速率比例，0 ~ 1
+   */
+  throttle(pausedUntil: number | null, rate: number): void {
+    this.pausedUntil = pausedUntil;
+    this.rate = Math.min(Math.max(rate, 0), 1);
+    if (pausedUntil) {
+      // 暂停期间清空令牌，避免恢复后瞬间突发
+      this.tokens = 0;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.notify();
+    this.pump();
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+
+  /**
+   * 按流逝时间补充令牌
+   */
+  private refill(): void {
+    const now = Date.now();
+    const paused = this.pausedUntil !== null && now < this.pausedUntil;
+    if (!paused) {
+      const elapsed = now - this.lastRefill;
+      this.tokens = Math.min(
+        this.config.bucketCapacity,
+        this.tokens + (elapsed * this.rate) / this.config.refillIntervalMs,
+      );
+    }
+    this.lastRefill = now;
+  }
+
+  private dequeue(): QueuedTask | undefined {
+    for (const priority of PRIORITY_ORDER) {
+      const task = this.queues[priority].shift();
+      if (task) return task;
+    }
+    return undefined;
+  }
+
+  private hasPending(): boolean {
+    return PRIORITY_ORDER.some((p) => this.queues[p].length > 0);
+  }
+
+  /**
+   * 尽可能多地派发任务；令牌不足时定时重试
+   */
+  private pump(): void {
+    if (this.timer || !this.hasPending()) return;
+
+    const now = Date.now();
+    if (this.pausedUntil !== null && now < this.pausedUntil) {
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.pump();
+      }, this.pausedUntil - now);
+      return;
+    }
+    // 速率为 0 时等待下一次 throttle 调用
+    if (this.rate <= 0) return;
+
+    while (
+      this.hasPending() &&
+      this.running.size < this.config.maxConcurrency
+    ) {
+      this.refill();
+      if (this.tokens < 1) {
+        const waitMs =
+          ((1 - this.tokens) * this.config.refillIntervalMs) / this.rate;
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, waitMs);
+        return;
+      }
+
+      const task = this.dequeue()!;
+      this.tokens -= 1;
+      task.startedAt = Date.now();
+      this.running.set(task.id, task);
+      this.notify();
+      task.run();
+    }
+  }
+}
+
+// 导出单例
+export const requestScheduler = new RequestScheduler();
@@ -0,0 +1,612 @@
+/**
+ * B站响应的运行时校验
+ * - 按接口路径注册校验器，在 executeRequest 解析 JSON 后执行
+ * - 可选字段缺失或类型不符时填充默认值（降级），必需字段异常时拒绝响应
+ * - 列表中的单个异常条目会被丢弃，而不是让整个列表失败
+ * - 所有偏差记录到漂移日志，注明哪个接口的哪个字段出了问题
+ */
+
+import logger from "../utils/logger";
+import { BiliApiErrorContext, ResponseParseError } from "./errors";
+import {
+  CommonFollowingsResponse,
+  ContractInfo,
+  FansItem,
+  FansResponse,
+  OfficialInfo,
+  OfficialVerify,
+  RelationInfo,
+  RelationStat,
+  RelationStatResponse,
+  RelationsResponse,
+  RelationTag,
+  RelationTagMembersResponse,
+  RelationTagsResponse,
+  UserCard,
+  UserCardResponse,
+  UserSearchResponse,
+  UserSearchResult,
+  UserVideo,
+  UserVideosResponse,
+  VideoStaff,
+  VideoViewResponse,
+  VipInfo,
+  VipLabel,
+} from "../types/bilibili";
+import type { WbiImg } from "./wbi";
+
+// ================== 漂移日志 ==================
+
+/**
+ * degraded: 已使用默认值或丢弃条目，数据仍可用
+ * fatal: 必需字段异常，响应被拒绝
+ */
+export type DriftSeverity = "degraded" | "fatal";
+
+export interface SchemaIssue {
+  /** 接口路径，如 /x/relation/followings */
+  endpoint: string;
+  /** 字段路径，如 data.list[].vip.nickname_color */
+  path: string;
+  expected: string;
+  received: string;
+  severity: DriftSeverity;
+}
+
+export interface DriftLogEntry extends SchemaIssue {
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+type DriftListener = (entries: DriftLogEntry[]) => void;
+
+/**
+ * 漂移日志：相同接口、字段、类型的偏差合并计数
+ */
+class SchemaDriftLog {
+  private entries = new Map<string, DriftLogEntry>();
+  private listeners = new Set<DriftListener>();
+
+  /**
+   * 记录一次偏差
+   */
+  record(issue: SchemaIssue): void {
+    const key = `${issue.endpoint} ${issue.path} ${issue.received}`;
+    const now = Date.now();
+    const existing = this.entries.get(key);
+
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = now;
+      // 同一字段既出现过降级也出现过致命错误时，以更严重的为准
+      if (issue.severity === "fatal") existing.severity = "fatal";
+    } else {
+      this.entries.set(key, {
+        ...issue,
+        count: 1,
+        firstSeen: now,
+        lastSeen: now,
+      });
+      logger.warn(
+        `接口响应结构变化 ${issue.endpoint}: ${issue.path} 期望 ${issue.expected}，实际为 ${issue.received}`,
+      );
+    }
+    this.notify();
+  }
+
+  /**
+   * 获取全部记录，最近出现的在前
+   */
+  getEntries(): DriftLogEntry[] {
+    return [...this.entries.values()].sort((a, b) => b.lastSeen - a.lastSeen);
+  }
+
+  /**
+   * 订阅日志变化，返回取消订阅函数
+   */
+  subscribe(listener: DriftListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getEntries());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.notify();
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const entries = this.getEntries();
+    this.listeners.forEach((listener) => listener(entries));
+  }
+}
+
+// 导出单例
+export const schemaDriftLog = new SchemaDriftLog();
+
+// ================== 校验器 ==================
+
+/**
+ * 必需字段异常，向上传播直到被列表丢弃条目（降级）或拒绝整个响应（致命），
+ * 由捕获处按结果记录严重程度
+ */
+class SchemaViolation extends Error {
+  constructor(
+    readonly path: string,
+    readonly expected: string,
+    readonly value: unknown,
+  ) {
+    super(`${path}: expected ${expected}`);
+  }
+}
+
+interface ValidationContext {
+  endpoint: string;
+}
+
+type Validator<T> = (value: unknown, path: string, ctx: ValidationContext) => T;
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const joinPath = (parent: string, key: string): string =>
+  parent ? `${parent}.${key}` : key;
+
+const report = (
+  ctx: ValidationContext,
+  path: string,
+  expected: string,
+  value: unknown,
+  severity: DriftSeverity,
+): void => {
+  schemaDriftLog.record({
+    endpoint: ctx.endpoint,
+    path,
+    expected,
+    received: describeValue(value),
+    severity,
+  });
+};
+
+/**
+ * 基础类型校验；提供 fallback 时为可选字段，否则为必需字段
+ */
+const primitive =
+  <T>(expected: string, isValid: (value: unknown) => value is T) =>
+  (fallback?: T): Validator<T> =>
+  (value, path, ctx) => {
+    if (isValid(value)) return value;
+    if (fallback !== undefined) {
+      report(ctx, path, expected, value, "degraded");
+      return fallback;
+    }
+    throw new SchemaViolation(path, expected, value);
+  };
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && !Number.isNaN(value);
+const isString = (value: unknown): value is string => typeof value === "string";
+const isBoolean = (value: unknown): value is boolean =>
+  typeof value === "boolean";
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const num = primitive("number", isNumber);
+const str = primitive("string", isString);
+const bool = primitive("boolean", isBoolean);
+
+/**
+ * 对象校验：逐字段校验并覆盖，保留未声明的字段
+ * 提供 fallback 时对象本身缺失会降级为默认值
+ */
+const object =
+  <T extends object>(
+    shape: { [K in keyof T]?: Validator<T[K]> },
+    fallback?: () => T,
+  ): Validator<T> =>
+  (value, path, ctx) => {
+    if (!isRecord(value)) {
+      if (fallback) {
+        report(ctx, path, "object", value, "degraded");
+        return fallback();
+      }
+      throw new SchemaViolation(path, "object", value);
+    }
+
+    const result: Record<string, unknown> = { ...value };
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const validate = shape[key] as Validator<unknown>;
+      result[key] = validate(value[key], joinPath(path, key), ctx);
+    }
+    return result as T;
+  };
+
+/**
+ * 列表校验：null 视为空列表（B站在无数据时常返回 null），
+ * 单个条目缺少必需字段时丢弃该条目
+ */
+const list =
+  <T>(item: Validator<T>): Validator<T[]> =>
+  (value, path, ctx) => {
+    if (value === null) return [];
+    if (!Array.isArray(value)) {
+      throw new SchemaViolation(path, "array", value);
+    }
+
+    const result: T[] = [];
+    for (const element of value) {
+      try {
+        result.push(item(element, `${path}[]`, ctx));
+      } catch (error) {
+        if (!(error instanceof SchemaViolation)) throw error;
+        report(ctx, error.path, error.expected, error.value, "degraded");
+      }
+    }
+    return result;
+  };
+
+/**
+ * 可缺失的列表：字段不存在时视为空列表，其余同 list
+ */
+const optionalList =
+  <T>(item: Validator<T>): Validator<T[]> =>
+  (value, path, ctx) =>
+    value === undefined ? [] : list(item)(value, path, ctx);
+
+/**
+ * 以 id 为键的字典校验：null 视为空字典，单个条目异常时丢弃该条目
+ */
+const dict =
+  <T>(item: Validator<T>): Validator<Record<string, T>> =>
+  (value, path, ctx) => {
+    if (value === null) return {};
+    if (!isRecord(value)) {
+      throw new SchemaViolation(path, "object", value);
+    }
+
+    const result: Record<string, T> = {};
+    for (const [key, element] of Object.entries(value)) {
+      try {
+        result[key] = item(element, `${path}{}`, ctx);
+      } catch (error) {
+        if (!(error instanceof SchemaViolation)) throw error;
+        report(ctx, error.path, error.expected, error.value, "degraded");
+      }
+    }
+    return result;
+  };
+
+/** 数组或 null，异常时降级为 null */
+const numberListOrNull: Validator<number[] | null> = (value, path, ctx) => {
+  if (value === null || (Array.isArray(value) && value.every(isNumber))) {
+    return value;
+  }
+  report(ctx, path, "number[] | null", value, "degraded");
+  return null;
+};
+
+// ================== B站数据结构 ==================
+
+const DEFAULT_VIP_LABEL: VipLabel = {
+  path: "",
+  text: "",
+  label_theme: "",
+  text_color: "",
+  bg_style: 0,
+  bg_color: "",
+  border_color: "",
+};
+
+const DEFAULT_VIP: VipInfo = {
+  vipType: 0,
+  vipDueDate: 0,
+  dueRemark: "",
+  accessStatus: 0,
+  vipStatus: 0,
+  vipStatusWarn: "",
+  themeType: 0,
+  label: DEFAULT_VIP_LABEL,
+  avatar_subscript: 0,
+  nickname_color: "",
+  avatar_subscript_url: "",
+};
+
+const officialVerify = object<OfficialVerify>(
+  { type: num(-1), desc: str("") },
+  () => ({ type: -1, desc: "" }),
+);
+
+const vipLabel = object<VipLabel>(
+  {
+    path: str(""),
+    text: str(""),
+    label_theme: str(""),
+    text_color: str(""),
+    bg_color: str(""),
+    border_color: str(""),
+  },
+  () => ({ ...DEFAULT_VIP_LABEL }),
+);
+
+const vipInfo = object<VipInfo>(
+  {
+    vipType: num(0),
+    vipStatus: num(0),
+    nickname_color: str(""),
+    label: vipLabel,
+  },
+  () => ({ ...DEFAULT_VIP }),
+);
+
+const contractInfo = object<ContractInfo>({}, () => ({}));
+
+const fansItem = object<FansItem>({
+  mid: num(),
+  uname: str(""),
+  face: str(""),
+  sign: str(""),
+  attribute: num(0),
+  mtime: num(0),
+  tag: numberListOrNull,
+  special: num(0),
+  contract_info: contractInfo,
+  official_verify: officialVerify,
+  vip: vipInfo,
+});
+
+const fansResponse = object<FansResponse>({
+  code: num(),
+  message: str(""),
+  ttl: num(0),
+  data: object<FansResponse["data"]>({
+    list: list(fansItem),
+    offset: str(""),
+    re_version: num(0),
+    total: num(),
+  }),
+});
+
+const commonFollowingsResponse = object<CommonFollowingsResponse>({
+  code: num(),
+  message: str(""),
+  ttl: num(0),
+  data: object<CommonFollowingsResponse["data"]>({
+    desc: str(""),
+    list: list(fansItem),
+    total: num(0),
+  }),
+});
+
+const relationTag = object<RelationTag>({
+  tagid: num(),
+  name: str(""),
+  count: num(0),
+  tip: str(""),
+});
+
+const relationTagsResponse = object<RelationTagsResponse>({
+  code: num(),
+  message: str(""),
+  ttl: num(0),
+  data: list(relationTag),
+});
+
+const relationTagMembersResponse = object<RelationTagMembersResponse>({
+  code: num(),
+  message: str(""),
+  ttl: num(0),
+  data: list(fansItem),
+});
+
+const officialInfo = object<OfficialInfo>(
+  { role: num(0), title: str(""), desc: str(""), type: num(-1) },
+  () => ({ role: 0, title: "", desc: "", type: -1 }),
+);
+
+const userCard = object<UserCard>({
+  // 名片接口的 mid 为字符串
+  mid: str(),
+  name: str(""),
+  sex: str("保密"),
+  face: str(""),
+  sign: str(""),
+  fans: num(0),
+  attention: num(0),
+  level_info: object<UserCard["level_info"]>({ current_level: num(0) }, () => ({
+    current_level: 0,
+  })),
+  Official: officialInfo,
+});
+
+const userCardResponse = object<UserCardResponse>({
+  code: num(),
+  message: str(""),
+  ttl: num(0),
+  data: object<UserCardResponse["data"]>({
+    card: userCard,
+    following: bool(false),
+    archive_count: num(0),
+    follower: num(0),
+    like_num: num(0),
+  }),
+});
+
+const relationStatResponse = object<RelationStatResponse>({
+  code: num(),
+  message: str(""),
+  ttl: num(0),
+  data: object<RelationStat>({
+    mid: num(),
+    following: num(),
+    whisper: num(0),
+    black: num(0),
+    follower: num(),
+  }),
+});
+
+const relationInfo = object<RelationInfo>({
+  mid: num(),
+  attribute: num(),
+  mtime: num(0),
+  tag: numberListOrNull,
+  special: num(0),
+});
+
+const relationsResponse = object<RelationsResponse>({
+  code: num(),
+  message: str(""),
+  ttl: num(0),
+  data: dict(relationInfo),
+});
+
+const userSearchResult = object<UserSearchResult>({
+  mid: num(),
+  uname: str(""),
+  usign: str(""),
+  fans: num(0),
+  videos: num(0),
+  upic: str(""),
+  level: num(0),
+  official_verify: officialVerify,
+});
+
+const userSearchResponse = object<UserSearchResponse>({
+  code: num(),
+  message: str(""),
+  ttl: num(0),
+  data: object<UserSearchResponse["data"]>({
+    page: num(1),
+    numResults: num(0),
+    numPages: num(0),
+    // 无结果时 result 字段缺失
+    result: optionalList(userSearchResult),
+  }),
+});
+
+const userVideo = object<UserVideo>({
+  aid: num(0),
+  bvid: str(),
+  title: str(""),
+  author: str(""),
+  mid: num(0),
+  created: num(0),
+  is_union_video: num(0),
+});
+
+const userVideosResponse = object<UserVideosResponse>({
+  code: num(),
+  message: str(""),
+  ttl: num(0),
+  data: object<UserVideosResponse["data"]>({
+    list: object<UserVideosResponse["data"]["list"]>({
+      vlist: list(userVideo),
+    }),
+    page: object<UserVideosResponse["data"]["page"]>(
+      { count: num(0), pn: num(1), ps: num(0) },
+      () => ({ count: 0, pn: 1, ps: 0 }),
+    ),
+  }),
+});
+
+const videoStaff = object<VideoStaff>({
+  mid: num(),
+  title: str(""),
+  name: str(""),
+  face: str(""),
+  follower: num(0),
+});
+
+const videoViewResponse = object<VideoViewResponse>({
+  code: num(),
+  message: str(""),
+  ttl: num(0),
+  data: object<VideoViewResponse["data"]>({
+    bvid: str(),
+    aid: num(0),
+    title: str(""),
+    owner: object<VideoViewResponse["data"]["owner"]>({
+      mid: num(),
+      name: str(""),
+      face: str(""),
+    }),
+    // 非联合投稿没有 staff 字段
+    staff: optionalList(videoStaff),
+  }),
+});
+
+interface NavData {
+  isLogin: boolean;
+  mid: number;
+  uname: string;
+  wbi_img: WbiImg;
+}
+
+const navResponse = object<{ code: number; data: NavData }>({
+  code: num(),
+  data: object<NavData>({
+    isLogin: bool(),
+    mid: num(0),
+    uname: str(""),
+    // 缺失时签名会失败，但不影响获取登录状态
+    wbi_img: object<WbiImg>({ img_url: str(""), sub_url: str("") }, () => ({
+      img_url: "",
+      sub_url: "",
+    })),
+  }),
+});
+
+/**
+ * 按接口路径注册的响应校验器，未注册的接口原样返回
+ */
+const RESPONSE_SCHEMAS: Record<string, Validator<unknown>> = {
+  "/x/relation/followings": fansResponse,
+  "/x/relation/fans": fansResponse,
+  "/x/relation/whispers": fansResponse,
+  "/x/relation/blacks": fansResponse,
+  "/x/relation/followings/followed_upper": commonFollowingsResponse,
+  "/x/web-interface/nav": navResponse,
+  "/x/relation/tags": relationTagsResponse,
+  "/x/relation/tag": relationTagMembersResponse,
+  "/x/web-interface/card": userCardResponse,
+  "/x/relation/stat": relationStatResponse,
+  "/x/relation/relations": relationsResponse,
+  "/x/web-interface/wbi/search/type": userSearchResponse,
+  "/x/space/wbi/arc/search": userVideosResponse,
+  "/x/web-interface/view": videoViewResponse,
+};
+
+/**
+ * 校验并规范化接口响应
+ * @throws ResponseParseError 必需字段缺失或类型不符
+ */
+export const validateResponse = (
+  endpoint: string,
+  data: unknown,
+  context: BiliApiErrorContext = {},
+): unknown => {
+  const validate = RESPONSE_SCHEMAS[endpoint];
+  if (!validate) return data;
+
+  try {
+    return validate(data, "", { endpoint });
+  } catch (error) {
+    if (error instanceof SchemaViolation) {
+      schemaDriftLog.record({
+        endpoint,
+        path: error.path,
+        expected: error.expected,
+        received: describeValue(error.value),
+        severity: "fatal",
+      });
+      throw new ResponseParseError({ ...context, endpoint });
+    }
+    throw error;
+  }
+};
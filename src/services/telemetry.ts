@@ -0,0 +1,249 @@
+/**
+ * 请求遥测
+ * 按接口统计请求数、耗时分位数、排队等待、重试、风控命中和缓存命中率，
+ * 供诊断面板实时展示和导出
+ */
+
+import { BiliApiError } from "./errors";
+
+// ================== 类型定义 ==================
+
+export type CacheOutcome = "hit" | "stale" | "miss";
+
+export interface LatencySummary {
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+interface TelemetryCounters {
+  /** 实际发出的请求次数（含重试） */
+  attempts: number;
+  successes: number;
+  failures: number;
+  retries: number;
+  riskControlHits: number;
+  /** 复用进行中请求的次数 */
+  dedupHits: number;
+  cacheHits: number;
+  /** 返回过期缓存并后台刷新的次数 */
+  staleHits: number;
+  cacheMisses: number;
+  /** 按错误类型计数 */
+  errors: Record<string, number>;
+}
+
+export interface TelemetryTotals extends TelemetryCounters {
+  /** 缓存命中率（含过期命中），无缓存查询时为 null */
+  cacheHitRatio: number | null;
+}
+
+export interface EndpointTelemetry extends TelemetryTotals {
+  endpoint: string;
+  /** 网络耗时（ms），不含排队 */
+  latency: LatencySummary | null;
+  /** 调度器排队等待（ms） */
+  queueWait: LatencySummary | null;
+}
+
+export interface TelemetrySnapshot {
+  startedAt: number;
+  endpoints: EndpointTelemetry[];
+  totals: TelemetryTotals;
+}
+
+interface EndpointStats extends TelemetryCounters {
+  latencies: number[];
+  queueWaits: number[];
+}
+
+type TelemetryListener = (snapshot: TelemetrySnapshot) => void;
+
+// 每个接口保留的最近样本数，用于计算分位数
+const MAX_SAMPLES = 500;
+// 合并高频更新，避免每个请求都触发 UI 渲染
+const NOTIFY_INTERVAL_MS = 500;
+
+const createCounters = (): TelemetryCounters => ({
+  attempts: 0,
+  successes: 0,
+  failures: 0,
+  retries: 0,
+  riskControlHits: 0,
+  dedupHits: 0,
+  cacheHits: 0,
+  staleHits: 0,
+  cacheMisses: 0,
+  errors: {},
+});
+
+const pushSample = (samples: number[], value: number): void => {
+  samples.push(value);
+  if (samples.length > MAX_SAMPLES) samples.shift();
+};
+
+/**
+ * 最近邻秩法计算分位数
+ */
+const summarize = (samples: number[]): LatencySummary | null => {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  return {
+    p50: at(0.5),
+    p90: at(0.9),
+    p99: at(0.99),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+const hitRatio = (hits: number, misses: number): number | null =>
+  hits + misses === 0 ? null : hits / (hits + misses);
+
+// ================== 遥测 ==================
+
+class RequestTelemetry {
+  private stats = new Map<string, EndpointStats>();
+  private startedAt = Date.now();
+  private listeners = new Set<TelemetryListener>();
+  private notifyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private get(endpoint: string): EndpointStats {
+    let stats = this.stats.get(endpoint);
+    if (!stats) {
+      stats = { ...createCounters(), latencies: [], queueWaits: [] };
+      this.stats.set(endpoint, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * 记录一次实际发出的请求
+   * @param error 失败时的错误，成功时省略
+   */
+  recordAttempt(
+    endpoint: string,
+    latencyMs: number,
+    queueWaitMs: number,
+    error?: unknown,
+  ): void {
+    const stats = this.get(endpoint);
+    stats.attempts++;
+    pushSample(stats.latencies, latencyMs);
+    pushSample(stats.queueWaits, queueWaitMs);
+
+    if (error === undefined) {
+      stats.successes++;
+    } else {
+      stats.failures++;
+      const kind = error instanceof BiliApiError ? error.kind : "unknown";
+      stats.errors[kind] = (stats.errors[kind] || 0) + 1;
+      if (kind === "risk_control") stats.riskControlHits++;
+    }
+    this.scheduleNotify();
+  }
+
+  recordRetry(endpoint: string): void {
+    this.get(endpoint).retries++;
+    this.scheduleNotify();
+  }
+
+  recordDedup(endpoint: string): void {
+    this.get(endpoint).dedupHits++;
+    this.scheduleNotify();
+  }
+
+  recordCache(endpoint: string, outcome: CacheOutcome): void {
+    const stats = this.get(endpoint);
+    if (outcome === "hit") stats.cacheHits++;
+    else if (outcome === "stale") stats.staleHits++;
+    else stats.cacheMisses++;
+    this.scheduleNotify();
+  }
+
+  /**
+   * 获取当前统计快照
+   */
+  getSnapshot(): TelemetrySnapshot {
+    const endpoints: EndpointTelemetry[] = [];
+    const totals: TelemetryTotals = {
+      ...createCounters(),
+      cacheHitRatio: null,
+    };
+
+    this.stats.forEach((stats, endpoint) => {
+      const { latencies, queueWaits, ...counters } = stats;
+      endpoints.push({
+        endpoint,
+        ...counters,
+        errors: { ...counters.errors },
+        cacheHitRatio: hitRatio(
+          stats.cacheHits + stats.staleHits,
+          stats.cacheMisses,
+        ),
+        latency: summarize(latencies),
+        queueWait: summarize(queueWaits),
+      });
+
+      totals.attempts += stats.attempts;
+      totals.successes += stats.successes;
+      totals.failures += stats.failures;
+      totals.retries += stats.retries;
+      totals.riskControlHits += stats.riskControlHits;
+      totals.dedupHits += stats.dedupHits;
+      totals.cacheHits += stats.cacheHits;
+      totals.staleHits += stats.staleHits;
+      totals.cacheMisses += stats.cacheMisses;
+      Object.entries(stats.errors).forEach(([kind, count]) => {
+        totals.errors[kind] = (totals.errors[kind] || 0) + count;
+      });
+    });
+
+    totals.cacheHitRatio = hitRatio(
+      totals.cacheHits + totals.staleHits,
+      totals.cacheMisses,
+    );
+    endpoints.sort((a, b) => b.attempts - a.attempts);
+
+    return { startedAt: this.startedAt, endpoints, totals };
+  }
+
+  /**
+   * 订阅统计变化，返回取消订阅函数
+   */
+  subscribe(listener: TelemetryListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getSnapshot());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 清空统计
+   */
+  reset(): void {
+    this.stats.clear();
+    this.startedAt = Date.now();
+    this.notify();
+  }
+
+  private scheduleNotify(): void {
+    if (this.notifyTimer || this.listeners.size === 0) return;
+    this.notifyTimer = setTimeout(() => {
+      this.notifyTimer = null;
+      this.notify();
+    }, NOTIFY_INTERVAL_MS);
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const snapshot = this.getSnapshot();
+    this.listeners.forEach((listener) => listener(snapshot));
+  }
+}
+
+// 导出单例
+export const requestTelemetry = new RequestTelemetry();
@@ -0,0 +1,249 @@
+/**
+ * HTTP 传输层
+ * 将实际的网络调用与 API 请求层解耦，支持：
+ * - GM_xmlhttpRequest（油猴环境，默认）
+ * - fetch（浏览器 / Node / 本地替身服务器）
+ * - 内存夹具（离线开发与回归测试，可录制真实响应）
+ */
+
+import {
+  NetworkError,
+  RequestCancelledError,
+  TimeoutError,
+  throwIfAborted,
+} from "./errors";
+
+// ================== 类型定义 ==================
+
+export type HttpMethod = "GET" | "POST";
+
+export interface TransportRequest {
+  method: HttpMethod;
+  url: string;
+  timeout: number;
+  headers?: Record<string, string>;
+  body?: string;
+  /** 中止信号，中止后以 RequestCancelledError 拒绝 */
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  status: number;
+  statusText: string;
+  responseText: string;
+}
+
+export interface Transport {
+  /** 传输实现名称，便于日志和诊断 */
+  readonly name: string;
+  send(req: TransportRequest): Promise<TransportResponse>;
+}
+
+// ================== GM_xmlhttpRequest ==================
+
+/**
+ * 基于 GM_xmlhttpRequest 的传输，可跨域并自动携带 B站 Cookie
+ */
+export class GMTransport implements Transport {
+  readonly name = "gm";
+
+  send(req: TransportRequest): Promise<TransportResponse> {
+    return new Promise((resolve, reject) => {
+      const { signal } = req;
+      if (signal?.aborted) {
+        reject(new RequestCancelledError());
+        return;
+      }
+
+      const onAbort = () => {
+        handle.abort();
+        reject(new RequestCancelledError());
+      };
+      const cleanup = () => signal?.removeEventListener("abort", onAbort);
+
+      const handle = GM_xmlhttpRequest({
+        method: req.method,
+        url: req.url,
+        timeout: req.timeout,
+        headers: req.headers,
+        data: req.body,
+        onload: (response) => {
+          cleanup();
+          resolve({
+            status: response.status,
+            statusText: response.statusText,
+            responseText: response.responseText,
+          });
+        },
+        onerror: () => {
+          cleanup();
+          reject(new NetworkError());
+        },
+        ontimeout: () => {
+          cleanup();
+          reject(new TimeoutError());
+        },
+      });
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+}
+
+// ================== fetch ==================
+
+interface FetchTransportOptions {
+  /**
+   * 替换请求中的 origin，例如将 https://api.bilibili.com
+   * 指向 http://localhost:3000 的本地替身服务器
+   */
+  baseUrl?: string;
+  credentials?: RequestCredentials;
+}
+
+/**
+ * 基于 fetch 的传输
+ */
+export class FetchTransport implements Transport {
+  readonly name = "fetch";
+  private options: FetchTransportOptions;
+
+  constructor(options: FetchTransportOptions = {}) {
+    this.options = { credentials: "include", ...options };
+  }
+
+  private resolveUrl(url: string): string {
+    if (!this.options.baseUrl) return url;
+    const original = new URL(url);
+    const target = new URL(this.options.baseUrl);
+    target.pathname = target.pathname.replace(/\/$/, "") + original.pathname;
+    target.search = original.search;
+    return target.toString();
+  }
+
+  async send(req: TransportRequest): Promise<TransportResponse> {
+    throwIfAborted(req.signal);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), req.timeout);
+    const onAbort = () => controller.abort();
+    req.signal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      const response = await fetch(this.resolveUrl(req.url), {
+        method: req.method,
+        headers: req.headers,
+        body: req.body,
+        credentials: this.options.credentials,
+        signal: controller.signal,
+      });
+      return {
+        status: response.status,
+        statusText: response.statusText,
+        responseText: await response.text(),
+      };
+    } catch {
+      if (req.signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+      if (controller.signal.aborted) {
+        throw new TimeoutError();
+      }
+      throw new NetworkError();
+    } finally {
+      clearTimeout(timer);
+      req.signal?.removeEventListener("abort", onAbort);
+    }
+  }
+}
+
+// ================== 内存夹具 ==================
+
+/** 夹具集合：键为规范化的请求地址，值为响应 JSON 或完整响应 */
+export type FixtureMap = Record<string, unknown>;
+
+/**
+ * 规范化请求地址作为夹具键
+ * 形如 `GET /x/relation/followings?pn=1&ps=50&vmid=123`（查询参数按字母排序）
+ */
+export const fixtureKey = (method: HttpMethod, url: string): string => {
+  const parsed = new URL(url);
+  const params = [...parsed.searchParams.entries()].sort(([a], [b]) =>
+    a.localeCompare(b),
+  );
+  const query = new URLSearchParams(params).toString();
+  return `${method} ${parsed.pathname}${query ? `?${query}` : ""}`;
+};
+
+const isTransportResponse = (value: unknown): value is TransportResponse =>
+  !!value &&
+  typeof value === "object" &&
+  typeof (value as TransportResponse).status === "number" &&
+  typeof (value as TransportResponse).responseText === "string";
+
+/**
+ * 内存夹具传输
+ * 先按完整键匹配，再按 `方法 + 路径` 匹配；均未命中时返回 404
+ */
+export class FixtureTransport implements Transport {
+  readonly name = "fixture";
+  private fixtures: FixtureMap;
+
+  constructor(fixtures: FixtureMap = {}) {
+    this.fixtures = { ...fixtures };
+  }
+
+  /**
+   * 添加或覆盖夹具
+   */
+  set(method: HttpMethod, url: string, response: unknown): void {
+    this.fixtures[fixtureKey(method, url)] = response;
+  }
+
+  async send(req: TransportRequest): Promise<TransportResponse> {
+    throwIfAborted(req.signal);
+    const key = fixtureKey(req.method, req.url);
+    const pathKey = key.split("?")[0];
+    const fixture =
+      key in this.fixtures ? this.fixtures[key] : this.fixtures[pathKey];
+
+    if (fixture === undefined) {
+      return { status: 404, statusText: "Fixture Not Found", responseText: "" };
+    }
+    if (isTransportResponse(fixture)) {
+      return fixture;
+    }
+    return {
+      status: 200,
+      statusText: "OK",
+      responseText: JSON.stringify(fixture),
+    };
+  }
+}
+
+/**
+ * 录制传输：透传给真实传输，同时记录响应，导出后可供 FixtureTransport 回放
+ */
+export class RecordingTransport implements Transport {
+  readonly name: string;
+  private inner: Transport;
+  private recorded: FixtureMap = {};
+
+  constructor(inner: Transport) {
+    this.inner = inner;
+    this.name = `recording(${inner.name})`;
+  }
+
+  async send(req: TransportRequest): Promise<TransportResponse> {
+    const response = await this.inner.send(req);
+    this.recorded[fixtureKey(req.method, req.url)] = response;
+    return response;
+  }
+
+  /**
+   * 导出已录制的夹具（可直接 JSON.stringify 保存）
+   */
+  export(): FixtureMap {
+    return { ...this.recorded };
+  }
+}
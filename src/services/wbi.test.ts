@@ -0,0 +1,69 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { encodeWbiQuery, getMixinKey, signWbiParams } from "./wbi";
+
+// 公开文档中的示例密钥
+const KEYS = {
+  imgKey: "7cd084941338484aae1ad9425b84077c",
+  subKey: "4932caff0ff746eab6f01bf08b70ac45",
+};
+const MIXIN_KEY = "ea1db124af3c7062474693fa704f4ff8";
+
+const md5Hex = (input: string) =>
+  createHash("md5").update(input, "utf8").digest("hex");
+
+describe("getMixinKey", () => {
+  it("按置换表生成 mixin key", () => {
+    expect(getMixinKey(KEYS)).toBe(MIXIN_KEY);
+  });
+});
+
+describe("signWbiParams", () => {
+  it("与已知签名一致", () => {
+    expect(
+      signWbiParams(
+        { foo: 114, bar: 514, zab: 1919810 },
+        MIXIN_KEY,
+        1702204169,
+      ),
+    ).toEqual({
+      bar: "514",
+      foo: "114",
+      wts: "1702204169",
+      zab: "1919810",
+      w_rid: "8f6f2b5b3d485fe1886cec6a0be8c5d4",
+    });
+  });
+
+  it("过滤参数值中的 !'()* 字符后再签名", () => {
+    const signed = signWbiParams(
+      { keyword: "a!b'c(d)e*f g" },
+      MIXIN_KEY,
+      1702204169,
+    );
+    expect(signed.keyword).toBe("abcdef g");
+    expect(signed.w_rid).toBe(
+      md5Hex(`keyword=abcdef%20g&wts=1702204169${MIXIN_KEY}`),
+    );
+  });
+
+  it("过滤字符前后签名相同", () => {
+    expect(
+      signWbiParams({ keyword: "(hello)!" }, MIXIN_KEY, 1702204169).w_rid,
+    ).toBe(signWbiParams({ keyword: "hello" }, MIXIN_KEY, 1702204169).w_rid);
+  });
+});
+
+describe("encodeWbiQuery", () => {
+  it("与签名使用同样的编码，空格编码为 %20 而不是 +", () => {
+    const { w_rid, ...params } = signWbiParams(
+      { keyword: "hello world", page: 1 },
+      MIXIN_KEY,
+      1702204169,
+    );
+    const query = encodeWbiQuery(params);
+
+    expect(query).toBe("keyword=hello%20world&page=1&wts=1702204169");
+    expect(w_rid).toBe(md5Hex(query + MIXIN_KEY));
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * WBI 请求签名
+ * 用户空间信息、投稿列表、搜索等接口要求携带 wts / w_rid 参数：
+ * 1. 从 /x/web-interface/nav 的 wbi_img 中取出 img_key、sub_key（图片文件名）
+ * 2. 按固定置换表打乱拼接后的 key，取前 32 位作为 mixin key
+ * 3. 参数加入 wts 后按键名排序、过滤特殊字符并编码，拼接 mixin key 后取 MD5 作为 w_rid
+ */
+
+import { md5 } from "../utils/md5";
+import { cacheManager } from "../utils/cacheManager";
+import logger from "../utils/logger";
+import { BiliApiError, ResponseParseError } from "./errors";
+
+// ================== 签名算法 ==================
+
+const MIXIN_KEY_ENC_TAB = [
+  46, 47, 18, 2, 53, 8, 23, 32, 15, 50, 10, 31, 58, 3, 45, 35, 27, 43, 5, 49,
+  33, 9, 42, 19, 29, 28, 14, 39, 12, 38, 41, 13, 37, 48, 7, 16, 24, 55, 40, 61,
+  26, 17, 0, 1, 60, 51, 30, 4, 22, 25, 54, 21, 56, 59, 6, 63, 57, 62, 11, 36,
+  20, 34, 44, 52,
+];
+
+// 参数值中不参与签名、也不会被服务器接收的字符
+const FILTERED_CHARS = /[!'()*]/g;
+
+export interface WbiKeys {
+  imgKey: string;
+  subKey: string;
+}
+
+/** nav 接口返回的 wbi_img 字段 */
+export interface WbiImg {
+  img_url: string;
+  sub_url: string;
+}
+
+/**
+ * 从 wbi_img 中提取 key：图片地址的文件名去掉扩展名
+ * @throws ResponseParseError 地址缺失或格式不符
+ */
+export const parseWbiKeys = (wbiImg: WbiImg | undefined): WbiKeys => {
+  const toKey = (url: string | undefined) =>
+    url?.slice(url.lastIndexOf("/") + 1).split(".")[0] ?? "";
+
+  const imgKey = toKey(wbiImg?.img_url);
+  const subKey = toKey(wbiImg?.sub_url);
+  if (!imgKey || !subKey) {
+    throw new ResponseParseError({ endpoint: "/x/web-interface/nav" });
+  }
+  return { imgKey, subKey };
+};
+
+/**
+ * 由 img_key 和 sub_key 生成 mixin key
+ */
+export const getMixinKey = ({ imgKey, subKey }: WbiKeys): string => {
+  const raw = imgKey + subKey;
+  return MIXIN_KEY_ENC_TAB.map((index) => raw[index])
+    .join("")
+    .slice(0, 32);
+};
+
+/**
+ * 按签名时的编码拼接查询字符串（空格编码为 %20）
+ * 发送的查询字符串必须与签名时一致，URLSearchParams 会把空格编码为 +，不能用于签名请求
+ */
+export const encodeWbiQuery = (params: Record<string, string>): string =>
+  Object.entries(params)
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(value)}`,
+    )
+    .join("&");
+
+/**
+ * 对参数签名，返回过滤后的参数及 wts、w_rid（按键名排序，w_rid 在最后）
+ * @param wts 秒级时间戳，默认当前时间
+ */
+export const signWbiParams = (
+  params: Record<string, string | number>,
+  mixinKey: string,
+  wts: number = Math.round(Date.now() / 1000),
+): Record<string, string> => {
+  const signed: Record<string, string> = {};
+  const withTimestamp: Record<string, string | number> = { ...params, wts };
+
+  for (const key of Object.keys(withTimestamp).sort()) {
+    signed[key] = String(withTimestamp[key]).replace(FILTERED_CHARS, "");
+  }
+
+  return { ...signed, w_rid: md5(encodeWbiQuery(signed) + mixinKey) };
+};
+
+// 签名无效时返回的业务 code
+const SIGNATURE_ERROR_CODES = new Set([-403]);
+
+/**
+ * 是否为签名失效导致的错误（密钥已轮换），刷新密钥后可重试
+ */
+export const isWbiSignatureError = (error: unknown): boolean =>
+  error instanceof BiliApiError &&
+  error.code !== undefined &&
+  SIGNATURE_ERROR_CODES.has(error.code);
+
+// ================== 密钥管理 ==================
+
+interface CachedMixinKey {
+  mixinKey: string;
+  fetchedAt: number;
+}
+
+/** 本地缓存中 mixin key 的键 */
+export const WBI_CACHE_KEY = "wbi_mixin_key";
+// B站每日轮换 WBI 密钥，超过半天即重新获取
+const KEY_TTL_MS = 12 * 60 * 60 * 1000;
+
+/**
+ * mixin key 管理：内存 + 本地缓存，过期或签名失效时通过 loader 重新获取
+ */
+export class WbiKeyManager {
+  private cached: CachedMixinKey | null = null;
+  private loading: Promise<string> | null = null;
+  private loader: () => Promise<WbiKeys>;
+
+  constructor(loader: () => Promise<WbiKeys>) {
+    this.loader = loader;
+  }
+
+  /**
+   * 获取 mixin key，并发调用共享同一次加载
+   */
+  async getMixinKey(): Promise<string> {
+    this.cached ??= await cacheManager.getAsync<CachedMixinKey>(WBI_CACHE_KEY);
+    if (this.cached && Date.now() - this.cached.fetchedAt < KEY_TTL_MS) {
+      return this.cached.mixinKey;
+    }
+    return this.load();
+  }
+
+  /**
+   * 丢弃当前密钥并立即重新获取
+   */
+  refresh(): Promise<string> {
+    this.invalidate();
+    return this.load();
+  }
+
+  /**
+   * 丢弃当前密钥，下次签名时重新获取
+   */
+  invalidate(): void {
+    this.cached = null;
+    cacheManager.removeAsync(WBI_CACHE_KEY).catch((error) => {
+      logger.warn("清除 WBI 密钥缓存失败:", error);
+    });
+  }
+
+  private load(): Promise<string> {
+    this.loading ??= this.loader()
+      .then((keys) => {
+        const entry = { mixinKey: getMixinKey(keys), fetchedAt: Date.now() };
+        this.cached = entry;
+        // 写入失败时仍可使用内存中的密钥
+        cacheManager.setAsync(WBI_CACHE_KEY, entry).catch((error) => {
+          logger.warn("缓存 WBI 密钥失败:", error);
+        });
+        logger.log("WBI 密钥已更新");
+        return entry.mixinKey;
+      })
+      .finally(() => {
+        this.loading = null;
+      });
+
+    return this.loading;
+  }
+}
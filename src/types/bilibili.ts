@@ -78,3 +78,162 @@ export interface CommonFollowingsResponse {
     total: number
   }
 }
+
+export interface RelationTag {
+  tagid: number // 0: 默认分组, -10: 特别关注
+  name: string
+  count: number
+  tip: string
+}
+
+export interface RelationTagsResponse {
+  code: number
+  message: string
+  ttl: number
+  data: RelationTag[]
+}
+
+export interface RelationTagMembersResponse {
+  code: number
+  message: string
+  ttl: number
+  data: FansItem[]
+}
+
+export interface OfficialInfo {
+  role: number // 0: 无, 1/2/7: 个人认证, 3-6: 机构认证
+  title: string
+  desc: string
+  type: number // -1: 无, 0: 个人认证, 1: 机构认证
+}
+
+export interface UserCard {
+  mid: string
+  name: string
+  sex: string // 男 / 女 / 保密
+  face: string
+  sign: string
+  fans: number
+  attention: number
+  level_info: {
+    current_level: number
+  }
+  Official: OfficialInfo
+}
+
+export interface UserCardResponse {
+  code: number
+  message: string
+  ttl: number
+  data: {
+    card: UserCard
+    following: boolean
+    archive_count: number
+    follower: number
+    like_num: number
+  }
+}
+
+export interface RelationStat {
+  mid: number
+  following: number
+  whisper: number
+  black: number
+  follower: number
+}
+
+export interface RelationStatResponse {
+  code: number
+  message: string
+  ttl: number
+  data: RelationStat
+}
+
+export interface RelationInfo {
+  mid: number
+  attribute: number // 0: 未关注, 1: 悄悄关注, 2: 已关注, 6: 已互粉, 128: 已拉黑
+  mtime: number
+  tag: number[] | null
+  special: number
+}
+
+export interface RelationsResponse {
+  code: number
+  message: string
+  ttl: number
+  data: Record<string, RelationInfo> // 以 mid 为键，无关系的用户不返回
+}
+
+export interface UserSearchResult {
+  mid: number
+  uname: string
+  usign: string
+  fans: number
+  videos: number
+  upic: string // 头像地址，省略协议（//i0.hdslb.com/...）
+  level: number
+  official_verify: OfficialVerify
+}
+
+export interface UserSearchResponse {
+  code: number
+  message: string
+  ttl: number
+  data: {
+    page: number
+    numResults: number
+    numPages: number
+    result: UserSearchResult[] // 无结果时缺失
+  }
+}
+
+export interface UserVideo {
+  aid: number
+  bvid: string
+  title: string
+  author: string
+  mid: number
+  created: number // 投稿时间（秒级时间戳）
+  is_union_video: number // 0: 否, 1: 联合投稿
+}
+
+export interface UserVideosResponse {
+  code: number
+  message: string
+  ttl: number
+  data: {
+    list: {
+      vlist: UserVideo[]
+    }
+    page: {
+      count: number
+      pn: number
+      ps: number
+    }
+  }
+}
+
+export interface VideoStaff {
+  mid: number
+  title: string // 职能，如「UP主」「参演」
+  name: string
+  face: string
+  follower: number
+}
+
+export interface VideoViewResponse {
+  code: number
+  message: string
+  ttl: number
+  data: {
+    bvid: string
+    aid: number
+    title: string
+    owner: {
+      mid: number
+      name: string
+      face: string
+    }
+    staff: VideoStaff[] // 仅联合投稿有此字段
+  }
+}
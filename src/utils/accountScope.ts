@@ -0,0 +1,195 @@
+/**
+ * 账号作用域
+ * - 共同关注、关系等缓存数据取决于登录账号，缓存按登录账号的 mid 划分命名空间
+ * - 登录账号从 Cookie（DedeUserID）读取，同一浏览器切换账号后自动使用新的命名空间
+ * - 支持切换到本地其他账号的命名空间，只读查看其缓存数据
+ */
+
+import logger from "./logger";
+
+export interface KnownAccount {
+  mid: number;
+  /** 昵称，尚未从登录状态接口获取时为空 */
+  uname?: string;
+  /** 最近一次以该账号登录使用的时间 */
+  lastSeen: number;
+}
+
+type AccountScopeListener = () => void;
+
+/** 本地账号列表，不属于任何账号的命名空间 */
+export const ACCOUNT_REGISTRY_KEY = "bilibili_helper_accounts";
+
+// 未登录时使用的命名空间
+const ANONYMOUS_NAMESPACE = "anon_";
+
+/** 匹配带账号命名空间的缓存键（不含全局前缀） */
+export const NAMESPACED_KEY_PATTERN = /^(?:u\d+|anon)_/;
+
+/**
+ * 拆分缓存键的账号命名空间
+ * @returns mid 为所属账号（未登录为 0，旧版未区分账号的缓存为 null）及去掉命名空间的键
+ */
+export const parseNamespacedKey = (
+  key: string,
+): { mid: number | null; key: string } => {
+  const match = key.match(NAMESPACED_KEY_PATTERN);
+  if (!match) return { mid: null, key };
+  return {
+    mid: match[0] === ANONYMOUS_NAMESPACE ? 0 : parseInt(key.substring(1), 10),
+    key: key.substring(match[0].length),
+  };
+};
+
+/**
+ * 校验账号列表中的记录（本地存储和备份文件中的数据都可能损坏）
+ */
+export const isKnownAccount = (account: unknown): account is KnownAccount =>
+  typeof (account as KnownAccount)?.mid === "number" &&
+  typeof (account as KnownAccount)?.lastSeen === "number";
+
+/**
+ * 从 Cookie 读取登录账号的 mid，未登录时返回 0
+ */
+const readLoggedInMid = (): number => {
+  const match = document.cookie.match(/(?:^|;\s*)DedeUserID=(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+};
+
+class AccountScope {
+  // 正在查看的其他账号，null 表示使用登录账号
+  private viewingMid: number | null = null;
+  private listeners = new Set<AccountScopeListener>();
+
+  /**
+   * 当前登录账号的 mid，未登录时为 0
+   * 每次读取 Cookie，其他标签页切换账号后立即生效
+   */
+  getLoggedInMid(): number {
+    return readLoggedInMid();
+  }
+
+  /**
+   * 缓存读写使用的账号：正在查看其他账号时为该账号，否则为登录账号
+   */
+  getActiveMid(): number {
+    return this.viewingMid ?? this.getLoggedInMid();
+  }
+
+  /**
+   * 是否正在查看其他账号的缓存（此时只读缓存，不发起请求）
+   */
+  isViewingOtherAccount(): boolean {
+    return (
+      this.viewingMid !== null && this.viewingMid !== this.getLoggedInMid()
+    );
+  }
+
+  /**
+   * 切换查看的账号，传入 null 或登录账号的 mid 时回到登录账号
+   */
+  viewAccount(mid: number | null): void {
+    const next = mid === null || mid === this.getLoggedInMid() ? null : mid;
+    if (next === this.viewingMid) return;
+    this.viewingMid = next;
+    logger.log(next ? `切换到账号 ${next} 的缓存` : "回到登录账号的缓存");
+    this.notify();
+  }
+
+  /**
+   * 账号的缓存命名空间，默认为当前使用的账号
+   */
+  getNamespace(mid: number = this.getActiveMid()): string {
+    return mid > 0 ? `u${mid}_` : ANONYMOUS_NAMESPACE;
+  }
+
+  /**
+   * 本地使用过的账号，按最近使用时间倒序
+   */
+  listAccounts(): KnownAccount[] {
+    try {
+      const raw = localStorage.getItem(ACCOUNT_REGISTRY_KEY);
+      const accounts: unknown = raw ? JSON.parse(raw) : [];
+      if (!Array.isArray(accounts)) return [];
+      return accounts
+        .filter(isKnownAccount)
+        .sort((a, b) => b.lastSeen - a.lastSeen);
+    } catch (error) {
+      logger.warn("读取本地账号列表失败:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 记录登录过的账号，已存在时更新昵称和使用时间
+   */
+  registerAccount(mid: number, uname?: string): void {
+    if (mid <= 0) return;
+    const accounts = this.listAccounts();
+    const existing = accounts.find((account) => account.mid === mid);
+    if (existing) {
+      existing.uname = uname ?? existing.uname;
+      existing.lastSeen = Date.now();
+    } else {
+      accounts.push({ mid, uname, lastSeen: Date.now() });
+    }
+    this.saveAccounts(accounts);
+  }
+
+  /**
+   * 合并其他来源（如备份文件）的账号列表，同一账号保留最近使用的记录
+   */
+  importAccounts(imported: KnownAccount[]): void {
+    const accounts = new Map(
+      this.listAccounts().map((account) => [account.mid, account]),
+    );
+    imported.forEach((account) => {
+      const existing = accounts.get(account.mid);
+      if (!existing || existing.lastSeen < account.lastSeen) {
+        accounts.set(account.mid, {
+          ...account,
+          uname: account.uname ?? existing?.uname,
+        });
+      }
+    });
+    this.saveAccounts([...accounts.values()]);
+  }
+
+  /**
+   * 从本地账号列表中移除（不删除缓存数据）
+   */
+  unregisterAccount(mid: number): void {
+    this.saveAccounts(
+      this.listAccounts().filter((account) => account.mid !== mid),
+    );
+    if (this.viewingMid === mid) {
+      this.viewAccount(null);
+    }
+  }
+
+  /**
+   * 订阅查看账号和账号列表的变化，返回取消订阅函数
+   */
+  subscribe(listener: AccountScopeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private saveAccounts(accounts: KnownAccount[]): void {
+    try {
+      localStorage.setItem(ACCOUNT_REGISTRY_KEY, JSON.stringify(accounts));
+    } catch (error) {
+      logger.error("保存本地账号列表失败:", error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// 导出单例
+export const accountScope = new AccountScope();
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { mergeProvenance } from "./bilibiliDB";
+
+describe("mergeProvenance", () => {
+  it("首次观察时使用本次来源", () => {
+    expect(mergeProvenance(undefined, "common_followings")).toBe(
+      "common_followings",
+    );
+  });
+
+  it("共同关注不覆盖关注、粉丝列表得到的来源", () => {
+    expect(mergeProvenance("followings", "common_followings")).toBe(
+      "followings",
+    );
+    expect(mergeProvenance("fans", "common_followings")).toBe("fans");
+  });
+
+  it("完整列表可以升级共同关注得到的来源", () => {
+    expect(mergeProvenance("common_followings", "followings")).toBe(
+      "followings",
+    );
+    expect(mergeProvenance("followings", "fans")).toBe("fans");
+  });
+});
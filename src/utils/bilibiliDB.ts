@@ -0,0 +1,318 @@
+/**
+ * IndexedDB 数据库结构与版本升级
+ * - cache: 接口响应缓存（键值存储，由 IndexedDBManager 管理）
+ * - users / edges / crawlState: 规范化的用户、关系边和抓取进度，可直接按用户查询关系
+ *
+ * 版本历史：
+ * - v1: cache
+ * - v2: cache 增加 expiry / lastAccess / size 索引
+ * - v3: 新增 users、edges、crawlState，并从已缓存的关注列表和共同关注中回填关系
+ */
+
+import {
+  openDB,
+  DBSchema,
+  IDBPDatabase,
+  IDBPTransaction,
+  StoreNames,
+} from "idb";
+import logger from "./logger";
+
+// ================== 类型定义 ==================
+
+export interface CacheItem<T> {
+  data: T;
+  expiry: number; // 过期时间戳
+  size: number; // 序列化后的字节数
+  lastAccess: number; // 最近读写时间戳，用于 LRU 淘汰
+}
+
+export interface StoredUser {
+  mid: number;
+  name: string;
+  face: string;
+  sign?: string;
+  updatedAt: number;
+}
+
+/** follow: source 关注了 target；co_creation: 合作投稿（无方向） */
+export type EdgeType = "follow" | "co_creation";
+
+/** 关系边的来源接口 */
+export type EdgeProvenance =
+  "followings" | "fans" | "common_followings" | "video_staff";
+
+export interface StoredEdge {
+  /** 由类型、起点和终点生成，同一关系重复观察时覆盖 */
+  id: string;
+  source: number;
+  target: number;
+  type: EdgeType;
+  /** 最近一次观察到该关系的时间 */
+  observedAt: number;
+  provenance: EdgeProvenance;
+  /** 合作视频（仅 co_creation） */
+  videos?: { bvid: string; title: string }[];
+  /**
+   * 通过共同关注观察到该关系的登录账号
+   * 共同关注是与登录账号关注列表的交集，完整抓取只能删除同一账号观察到的关系
+   */
+  viewers?: number[];
+}
+
+export type CrawlKind =
+  "followings" | "fans" | "common_followings" | "co_creation";
+
+/** 某个用户某类关系的抓取进度 */
+export interface CrawlState {
+  /** 见 getCrawlKey */
+  key: string;
+  mid: number;
+  kind: CrawlKind;
+  /** 抓取时的登录账号，仅共同关注：结果取决于登录账号，不同账号的进度分开记录 */
+  viewer?: number;
+  /** complete 表示已抓取全部，partial 表示中途停止或被接口截断 */
+  status: "complete" | "partial";
+  fetched: number;
+  total: number;
+  updatedAt: number;
+}
+
+export interface BilibiliDB extends DBSchema {
+  cache: {
+    key: string;
+    value: CacheItem<any>;
+    indexes: {
+      expiry: number;
+      lastAccess: number;
+      size: number;
+    };
+  };
+  users: {
+    key: number;
+    value: StoredUser;
+  };
+  edges: {
+    key: string;
+    value: StoredEdge;
+    indexes: {
+      source: number;
+      target: number;
+    };
+  };
+  crawlState: {
+    key: string;
+    value: CrawlState;
+  };
+}
+
+type UpgradeTransaction = IDBPTransaction<
+  BilibiliDB,
+  StoreNames<BilibiliDB>[],
+  "versionchange"
+>;
+
+const DB_NAME = "bilibili_helper_db";
+/** 当前数据库版本，备份文件中记录导出时的版本 */
+export const DB_VERSION = 3;
+
+/**
+ * 估算值序列化后的字节数（UTF-8）
+ */
+export const estimateSize = (value: unknown): number =>
+  new Blob([JSON.stringify(value) ?? ""]).size;
+
+/**
+ * 关系边的主键
+ * 合作关系无方向，按 mid 大小排序后生成，两个方向观察到的是同一条边
+ */
+export const getEdgeId = (
+  type: EdgeType,
+  source: number,
+  target: number,
+): string =>
+  type === "co_creation"
+    ? `${type}:${Math.min(source, target)}-${Math.max(source, target)}`
+    : `${type}:${source}-${target}`;
+
+/**
+ * 抓取进度的主键：`${kind}:${mid}`，共同关注追加登录账号 `@${viewer}`
+ */
+export const getCrawlKey = (
+  kind: CrawlKind,
+  mid: number,
+  viewer?: number,
+): string =>
+  viewer === undefined ? `${kind}:${mid}` : `${kind}:${mid}@${viewer}`;
+
+// 来源的可信度：关注、粉丝列表是完整列表，共同关注只是对方关注的子集
+const PROVENANCE_RANK: Record<EdgeProvenance, number> = {
+  followings: 2,
+  fans: 2,
+  video_staff: 2,
+  common_followings: 1,
+};
+
+/**
+ * 重复观察同一关系时保留的来源
+ * 不以共同关注覆盖关注、粉丝列表得到的来源，否则该关系会在共同关注的完整抓取后被误删
+ */
+export const mergeProvenance = (
+  existing: EdgeProvenance | undefined,
+  observed: EdgeProvenance,
+): EdgeProvenance =>
+  existing && PROVENANCE_RANK[existing] > PROVENANCE_RANK[observed]
+    ? existing
+    : observed;
+
+// ================== 版本升级 ==================
+
+/**
+ * v2: 大小、访问时间和过期时间索引，并为 v1 的旧条目补充对应字段
+ */
+const upgradeToV2 = async (transaction: UpgradeTransaction): Promise<void> => {
+  const store = transaction.objectStore("cache");
+  store.createIndex("expiry", "expiry");
+  store.createIndex("lastAccess", "lastAccess");
+  store.createIndex("size", "size");
+
+  const now = Date.now();
+  let cursor = await store.openCursor();
+  while (cursor) {
+    const item = cursor.value;
+    await cursor.update({
+      ...item,
+      size: item.size ?? estimateSize(item.data),
+      lastAccess: item.lastAccess ?? now,
+    });
+    cursor = await cursor.continue();
+  }
+};
+
+// 已缓存的关系接口响应：共同关注（可能带账号命名空间）和关注/粉丝分页
+const COMMON_FOLLOWINGS_KEY = /^(?:u(\d+)_|anon_)?common_followings_(\d+)$/;
+const RELATION_PAGE_KEY = /api_\/x\/relation\/(followings|fans)\?(.*)$/;
+
+interface CachedUserList {
+  list?: { mid: number; uname: string; face: string; sign?: string }[];
+}
+
+/**
+ * 从缓存的响应中取出用户列表（兼容带抓取时间的包装和旧版直接缓存的响应）
+ */
+const readCachedList = (value: unknown): CachedUserList["list"] => {
+  const response = (value as { data?: unknown; fetchedAt?: number }) ?? {};
+  const body =
+    typeof response.fetchedAt === "number"
+      ? (response.data as { data?: CachedUserList })
+      : (response as { data?: CachedUserList });
+  return Array.isArray(body?.data?.list) ? body.data.list : undefined;
+};
+
+/**
+ * v3: 规范化存储，并从 cache 中已有的关系响应回填用户和关系边，
+ * 升级后无需重新请求即可按用户查询关系
+ */
+const upgradeToV3 = async (
+  db: IDBPDatabase<BilibiliDB>,
+  transaction: UpgradeTransaction,
+): Promise<void> => {
+  db.createObjectStore("users", { keyPath: "mid" });
+  const edgeStore = db.createObjectStore("edges", { keyPath: "id" });
+  edgeStore.createIndex("source", "source");
+  edgeStore.createIndex("target", "target");
+  db.createObjectStore("crawlState", { keyPath: "key" });
+
+  const users = transaction.objectStore("users");
+  const edges = transaction.objectStore("edges");
+  let backfilled = 0;
+
+  let cursor = await transaction.objectStore("cache").openCursor();
+  while (cursor) {
+    const key = cursor.key;
+    const list = readCachedList(cursor.value.data);
+    const observedAt = cursor.value.lastAccess ?? Date.now();
+
+    const common = key.match(COMMON_FOLLOWINGS_KEY);
+    const page = key.match(RELATION_PAGE_KEY);
+    const vmid = common
+      ? Number(common[2])
+      : page && Number(new URLSearchParams(page[2]).get("vmid"));
+
+    if (list && vmid) {
+      const provenance: EdgeProvenance = common
+        ? "common_followings"
+        : (page![1] as EdgeProvenance);
+      // 共同关注所属的登录账号（旧版未区分账号的缓存无法确定）
+      const viewer = common?.[1] ? Number(common[1]) : undefined;
+      for (const item of list) {
+        // 粉丝列表中是对方关注 vmid，其余都是 vmid 关注对方
+        const [source, target] =
+          provenance === "fans" ? [item.mid, vmid] : [vmid, item.mid];
+        await users.put({
+          mid: item.mid,
+          name: item.uname,
+          face: item.face,
+          sign: item.sign,
+          updatedAt: observedAt,
+        });
+        const id = getEdgeId("follow", source, target);
+        const existing = await edges.get(id);
+        const viewers = [
+          ...new Set([
+            ...(existing?.viewers ?? []),
+            ...(viewer ? [viewer] : []),
+          ]),
+        ];
+        await edges.put({
+          id,
+          source,
+          target,
+          type: "follow",
+          observedAt,
+          provenance: mergeProvenance(existing?.provenance, provenance),
+          ...(viewers.length > 0 && { viewers }),
+        });
+        backfilled++;
+      }
+    }
+    cursor = await cursor.continue();
+  }
+
+  if (backfilled > 0) {
+    logger.log(`已从缓存回填 ${backfilled} 条关系`);
+  }
+};
+
+// ================== 连接 ==================
+
+let dbPromise: Promise<IDBPDatabase<BilibiliDB>> | null = null;
+
+/**
+ * 获取共享的数据库连接，首次调用时按版本依次升级
+ * 连接失败时重置，允许下次重试
+ */
+export const getBilibiliDB = (): Promise<IDBPDatabase<BilibiliDB>> => {
+  dbPromise ??= openDB<BilibiliDB>(DB_NAME, DB_VERSION, {
+    async upgrade(db, oldVersion, _newVersion, transaction) {
+      if (oldVersion < 1) {
+        db.createObjectStore("cache");
+      }
+      if (oldVersion < 2) {
+        await upgradeToV2(transaction);
+      }
+      if (oldVersion < 3) {
+        await upgradeToV3(db, transaction);
+      }
+    },
+    blocking() {
+      // 其他标签页需要升级数据库时关闭当前连接，下次使用时重新打开
+      dbPromise?.then((db) => db.close());
+      dbPromise = null;
+    },
+  }).catch((error) => {
+    dbPromise = null;
+    throw error;
+  });
+  return dbPromise;
+};
@@ -0,0 +1,40 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { cacheManager } from "./cacheManager";
+
+const MINUTE = 60 * 1000;
+const DATA = "x".repeat(200);
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(0);
+  // 约可容纳 3 个条目
+  cacheManager.updateConfig({ storage: "localStorage", localMaxBytes: 1800 });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("localStorage 淘汰", () => {
+  it("超出预算时淘汰最久未访问的条目，而不是最早写入的条目", () => {
+    cacheManager.set("a", DATA);
+    vi.advanceTimersByTime(2 * MINUTE);
+    cacheManager.set("b", DATA);
+    vi.advanceTimersByTime(2 * MINUTE);
+    cacheManager.set("c", DATA);
+
+    // 读取最早写入的 a，使 b 成为最久未访问的条目
+    vi.advanceTimersByTime(2 * MINUTE);
+    expect(cacheManager.get("a")).toBe(DATA);
+
+    vi.advanceTimersByTime(2 * MINUTE);
+    cacheManager.set("d", DATA);
+
+    expect(cacheManager.get("a")).toBe(DATA);
+    expect(cacheManager.get("b")).toBeNull();
+    expect(cacheManager.get("c")).toBe(DATA);
+    expect(cacheManager.get("d")).toBe(DATA);
+  });
+});
@@ -1,28 +1,98 @@
 /**
  * 缓存管理工具
  * 支持 IndexedDB（优先）和 localStorage（降级）双存储
+ * 缓存键按账号划分命名空间，不同账号的数据互不可见
  */
 
-import { indexedDBManager } from "./indexedDBManager";
+import {
+  ACCOUNT_REGISTRY_KEY,
+  NAMESPACED_KEY_PATTERN,
+  accountScope,
+  isKnownAccount,
+  parseNamespacedKey,
+} from "./accountScope";
+import { StorageUsage, indexedDBManager } from "./indexedDBManager";
 import logger from "./logger";
+import { LEGACY_MIGRATION_KEY, SCHEMA_VERSION_KEY } from "./migrationTool";
 
 interface CacheItem<T> {
   data: T;
   expiry: number; // 过期时间戳
+  lastAccess?: number; // 最近访问时间戳，旧版本写入的条目没有该字段
 }
 
 type StorageType = "localStorage" | "indexedDB" | "auto";
 
+/** 缓存条目所在的存储 */
+export type CacheStore = "indexedDB" | "localStorage";
+
 interface CacheConfig {
   expiryDays: number; // 过期天数，默认 30 天
   storage: StorageType; // 存储类型
+  localMaxBytes: number; // localStorage 字节预算，超出后淘汰最久未访问的条目
+}
+
+/** 存储占用报告 */
+export interface StorageReport {
+  indexedDB: StorageUsage;
+  localStorage: StorageUsage;
+  /** 整个源的占用和配额（navigator.storage.estimate），浏览器不支持时为 null */
+  estimate: { usage: number; quota: number } | null;
+}
+
+/** 缓存条目概况 */
+export interface CacheEntryInfo {
+  store: CacheStore;
+  /** 带账号命名空间的键（不含 localStorage 的全局前缀） */
+  key: string;
+  /** 所属账号，未登录为 0，旧版未区分账号的缓存为 null */
+  mid: number | null;
+  bytes: number;
+  /** 写入时间，条目损坏时为 null */
+  writtenAt: number | null;
+  expiry: number;
 }
 
 const DEFAULT_CONFIG: CacheConfig = {
   expiryDays: 30, // 30天（1个月）
   storage: "auto", // 自动选择：优先 IndexedDB，降级到 localStorage
+  localMaxBytes: 2 * 1024 * 1024, // localStorage 通常只有 5MB 且与 B 站页面共用
 };
 
+// 定期清理过期条目的间隔
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+// 启动后延迟首次清理，避开页面加载
+const INITIAL_SWEEP_DELAY_MS = 30 * 1000;
+// 整个源的占用超过配额的该比例时，主动缩减 IndexedDB 缓存
+const STORAGE_PRESSURE_RATIO = 0.8;
+// 读取 localStorage 条目时距上次记录超过该间隔才更新访问时间，减少整条重写
+const ACCESS_TOUCH_INTERVAL_MS = 60 * 1000;
+
+// 与缓存共用前缀但不是缓存条目的键（账号列表、migrationTool 的数据版本和旧版迁移标记）
+const RESERVED_KEYS = new Set([
+  ACCOUNT_REGISTRY_KEY,
+  SCHEMA_VERSION_KEY,
+  LEGACY_MIGRATION_KEY,
+]);
+
+/**
+ * IndexedDB 和 localStorage 均已写满
+ */
+export class CacheQuotaExceededError extends Error {
+  constructor(key: string) {
+    super(`缓存空间不足，无法写入: ${key}`);
+    this.name = "CacheQuotaExceededError";
+  }
+}
+
+/**
+ * 是否为存储配额不足错误（各浏览器的 DOMException 名称不同）
+ */
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" ||
+    error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
 class CacheManager {
   private prefix = "bilibili_helper_";
   private config: CacheConfig;
@@ -33,6 +103,7 @@ class CacheManager {
 
   /**
    * 设置缓存（异步版本，支持 IndexedDB）
+   * @throws CacheQuotaExceededError 两个存储都已写满
    */
   async setAsync<T>(key: string, data: T): Promise<void> {
     const storage = this.config.storage;
@@ -40,18 +111,27 @@ class CacheManager {
     // IndexedDB 优先
     if (storage === "indexedDB" || storage === "auto") {
       try {
-        await indexedDBManager.set(key, data);
+        await indexedDBManager.set(this.scoped(key), data);
+        // 删除 localStorage 中的旧副本，避免读取时回退到过时数据并释放配额
+        this.remove(key);
         return;
       } catch (error) {
-        logger.warn("IndexedDB 写入失败，降级到 localStorage:", error);
         if (storage === "indexedDB") {
-          throw error; // 如果明确指定只用 IndexedDB，则抛出错误
+          throw isQuotaExceededError(error)
+            ? new CacheQuotaExceededError(key)
+            : error; // 如果明确指定只用 IndexedDB，则抛出错误
         }
+        logger.warn(
+          isQuotaExceededError(error)
+            ? "IndexedDB 空间不足，降级到 localStorage"
+            : "IndexedDB 写入失败，降级到 localStorage:",
+          error,
+        );
       }
     }
 
-    // localStorage 降级
-    this.setSync(key, data);
+    // localStorage 降级，配额不足时向调用方抛出
+    this.writeLocal(key, data);
   }
 
   /**
@@ -62,19 +142,114 @@ class CacheManager {
   }
 
   /**
-   * 内部同步设置方法
+   * 内部同步设置方法，写入失败时只记录日志
    */
   private setSync<T>(key: string, data: T): void {
-    const expiry = Date.now() + this.config.expiryDays * 24 * 60 * 60 * 1000;
-    const cacheItem: CacheItem<T> = { data, expiry };
-
     try {
-      localStorage.setItem(this.prefix + key, JSON.stringify(cacheItem));
+      this.writeLocal(key, data);
     } catch (error) {
       logger.error("localStorage 写入失败:", error);
     }
   }
 
+  /**
+   * 写入 localStorage；先按字节预算淘汰，配额不足时清理已过期的条目再重试一次
+   * @throws CacheQuotaExceededError 条目超出预算，或清理后仍然写不下
+   */
+  private writeLocal<T>(key: string, data: T): void {
+    const expiry = Date.now() + this.getLifetime();
+    const cacheItem: CacheItem<T> = { data, expiry, lastAccess: Date.now() };
+    const value = JSON.stringify(cacheItem);
+    const fullKey = this.storageKey(key);
+
+    const bytes = (fullKey.length + value.length) * 2;
+    if (bytes > this.config.localMaxBytes) {
+      throw new CacheQuotaExceededError(key);
+    }
+    this.evictLocalToFit(fullKey, bytes);
+
+    try {
+      localStorage.setItem(fullKey, value);
+      return;
+    } catch (error) {
+      if (!isQuotaExceededError(error)) throw error;
+    }
+
+    const removed = this.removeExpiredLocal();
+    logger.warn(`localStorage 空间不足，已清理 ${removed} 个过期条目`);
+    try {
+      localStorage.setItem(fullKey, value);
+    } catch (error) {
+      throw isQuotaExceededError(error)
+        ? new CacheQuotaExceededError(key)
+        : error;
+    }
+  }
+
+  /**
+   * 为新条目腾出 localStorage 预算，按 LRU 淘汰最久未访问的条目
+   */
+  private evictLocalToFit(fullKey: string, bytes: number): void {
+    const entries = this.getLocalEntries().filter(
+      (entry) => entry.fullKey !== fullKey,
+    );
+    let used = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+    if (used + bytes <= this.config.localMaxBytes) return;
+
+    let evicted = 0;
+    entries.sort((a, b) => a.lastAccess - b.lastAccess);
+    for (const entry of entries) {
+      if (used + bytes <= this.config.localMaxBytes) break;
+      localStorage.removeItem(entry.fullKey);
+      used -= entry.bytes;
+      evicted++;
+    }
+    logger.log(`localStorage 超出预算，已淘汰 ${evicted} 个最久未访问的条目`);
+  }
+
+  /**
+   * 本脚本写入的 localStorage 条目及其占用（UTF-16，每字符 2 字节）
+   * 无法解析的条目过期和访问时间视为 0，最先被淘汰
+   */
+  private getLocalEntries(): {
+    fullKey: string;
+    bytes: number;
+    expiry: number;
+    lastAccess: number;
+  }[] {
+    return this.getLocalKeys().map((key) => {
+      const fullKey = this.prefix + key;
+      const value = localStorage.getItem(fullKey) ?? "";
+      return {
+        fullKey,
+        bytes: (fullKey.length + value.length) * 2,
+        ...this.readTimestamps(value),
+      };
+    });
+  }
+
+  /**
+   * 删除 localStorage 中所有账号已过期或已损坏的条目
+   * @returns 删除的条目数
+   */
+  private removeExpiredLocal(): number {
+    let removed = 0;
+    this.getLocalKeys().forEach((key) => {
+      const fullKey = this.prefix + key;
+      try {
+        const item = JSON.parse(localStorage.getItem(fullKey) ?? "null");
+        if (typeof item?.expiry === "number" && Date.now() <= item.expiry) {
+          return;
+        }
+      } catch {
+        // 无法解析的条目同样删除
+      }
+      localStorage.removeItem(fullKey);
+      removed++;
+    });
+    return removed;
+  }
+
   /**
    * 获取缓存（异步版本，支持 IndexedDB）
    */
@@ -84,7 +259,7 @@ class CacheManager {
     // IndexedDB 优先
     if (storage === "indexedDB" || storage === "auto") {
       try {
-        const data = await indexedDBManager.get<T>(key);
+        const data = await indexedDBManager.get<T>(this.scoped(key));
         if (data !== null) {
           return data;
         }
@@ -115,7 +290,7 @@ class CacheManager {
    */
   private getSync<T>(key: string): T | null {
     try {
-      const item = localStorage.getItem(this.prefix + key);
+      const item = localStorage.getItem(this.storageKey(key));
       if (!item) return null;
 
       const cacheItem = JSON.parse(item);
@@ -138,6 +313,18 @@ class CacheManager {
         return null;
       }
 
+      // 更新访问时间，写入失败不影响读取
+      if (Date.now() - (cacheItem.lastAccess ?? 0) > ACCESS_TOUCH_INTERVAL_MS) {
+        try {
+          localStorage.setItem(
+            this.storageKey(key),
+            JSON.stringify({ ...cacheItem, lastAccess: Date.now() }),
+          );
+        } catch (error) {
+          logger.warn("localStorage 更新访问时间失败:", error);
+        }
+      }
+
       return cacheItem.data as T;
     } catch (error) {
       logger.error("localStorage 读取失败:", error);
@@ -152,7 +339,7 @@ class CacheManager {
    */
   async removeAsync(key: string): Promise<void> {
     try {
-      await indexedDBManager.remove(key);
+      await indexedDBManager.remove(this.scoped(key));
     } catch (error) {
       logger.warn("IndexedDB 删除失败:", error);
     }
@@ -164,14 +351,37 @@ class CacheManager {
    */
   remove(key: string): void {
     try {
-      localStorage.removeItem(this.prefix + key);
+      localStorage.removeItem(this.storageKey(key));
+    } catch (error) {
+      logger.error("localStorage 删除失败:", error);
+    }
+  }
+
+  /**
+   * 删除指定前缀的缓存（同步版本，仅 localStorage）
+   */
+  removeByPrefix(keyPrefix: string): void {
+    try {
+      Object.keys(localStorage).forEach((key) => {
+        if (key.startsWith(this.storageKey(keyPrefix))) {
+          localStorage.removeItem(key);
+        }
+      });
     } catch (error) {
       logger.error("localStorage 删除失败:", error);
     }
   }
 
   /**
-   * 清除所有缓存（同时清除两个存储）
+   * 删除指定前缀的缓存（同时删除两个存储）
+   */
+  async removeByPrefixAsync(keyPrefix: string): Promise<void> {
+    await indexedDBManager.removeByPrefix(this.scoped(keyPrefix));
+    this.removeByPrefix(keyPrefix);
+  }
+
+  /**
+   * 清除所有缓存（所有账号，同时清除两个存储）
    */
   async clearAsync(): Promise<void> {
     try {
@@ -183,7 +393,7 @@ class CacheManager {
   }
 
   /**
-   * 清除所有缓存（同步版本，仅 localStorage）
+   * 清除所有缓存（所有账号，同步版本，仅 localStorage）
    */
   clear(): void {
     try {
@@ -198,6 +408,317 @@ class CacheManager {
     }
   }
 
+  // ================== 容量控制 ==================
+
+  /**
+   * 启动定期清理：删除两个存储中的过期条目，整个源接近配额时缩减缓存
+   * @returns 停止函数
+   */
+  startSweeper(): () => void {
+    const run = () => {
+      this.sweep().catch((error) => logger.warn("缓存清理失败:", error));
+    };
+    const initialTimer = setTimeout(run, INITIAL_SWEEP_DELAY_MS);
+    const intervalTimer = setInterval(run, SWEEP_INTERVAL_MS);
+    return () => {
+      clearTimeout(initialTimer);
+      clearInterval(intervalTimer);
+    };
+  }
+
+  /**
+   * 执行一次清理
+   */
+  async sweep(): Promise<void> {
+    const expired = await indexedDBManager.sweepExpired();
+    const expiredLocal = this.removeExpiredLocal();
+    if (expired + expiredLocal > 0) {
+      logger.log(
+        `已清理过期缓存: IndexedDB ${expired} 个，localStorage ${expiredLocal} 个`,
+      );
+    }
+
+    const estimate = await this.getStorageEstimate();
+    if (estimate && estimate.usage > estimate.quota * STORAGE_PRESSURE_RATIO) {
+      // 配额由 B 站页面自身的数据共用，缓存让出一半空间
+      const { bytes } = await indexedDBManager.getUsage();
+      const evicted = await indexedDBManager.evictToBytes(bytes / 2);
+      logger.warn(
+        `存储占用已达配额的 ${Math.round((estimate.usage / estimate.quota) * 100)}%，淘汰 ${evicted} 个缓存条目`,
+      );
+    }
+  }
+
+  /**
+   * 整个源的存储占用和配额，浏览器不支持时返回 null
+   */
+  async getStorageEstimate(): Promise<StorageReport["estimate"]> {
+    if (!navigator.storage?.estimate) return null;
+    try {
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return quota > 0 ? { usage, quota } : null;
+    } catch (error) {
+      logger.warn("获取存储配额失败:", error);
+      return null;
+    }
+  }
+
+  /**
+   * 两个存储的占用及整个源的配额
+   */
+  async getStorageReport(): Promise<StorageReport> {
+    const [indexedDB, estimate] = await Promise.all([
+      indexedDBManager.getUsage(),
+      this.getStorageEstimate(),
+    ]);
+    const localEntries = this.getLocalEntries();
+    return {
+      indexedDB,
+      localStorage: {
+        entries: localEntries.length,
+        bytes: localEntries.reduce((sum, entry) => sum + entry.bytes, 0),
+        maxBytes: this.config.localMaxBytes,
+      },
+      estimate,
+    };
+  }
+
+  // ================== 条目管理 ==================
+
+  /**
+   * 列出两个存储中的所有缓存条目（所有账号）
+   */
+  async listEntries(): Promise<CacheEntryInfo[]> {
+    const lifetime = this.getLifetime();
+    const indexedDBEntries = await indexedDBManager.listEntries();
+    return [
+      ...indexedDBEntries.map((entry): CacheEntryInfo => ({
+        store: "indexedDB",
+        key: entry.key,
+        mid: parseNamespacedKey(entry.key).mid,
+        bytes: entry.size,
+        writtenAt: entry.writtenAt,
+        expiry: entry.expiry,
+      })),
+      ...this.getLocalEntries().map((entry): CacheEntryInfo => {
+        const key = entry.fullKey.substring(this.prefix.length);
+        return {
+          store: "localStorage",
+          key,
+          mid: parseNamespacedKey(key).mid,
+          bytes: entry.bytes,
+          writtenAt: entry.expiry > 0 ? entry.expiry - lifetime : null,
+          expiry: entry.expiry,
+        };
+      }),
+    ];
+  }
+
+  /**
+   * 删除指定的缓存条目（键带账号命名空间，可以属于任何账号）
+   */
+  async removeEntries(
+    entries: Pick<CacheEntryInfo, "store" | "key">[],
+  ): Promise<void> {
+    await Promise.all(
+      entries
+        .filter((entry) => entry.store === "indexedDB")
+        .map((entry) => indexedDBManager.remove(entry.key)),
+    );
+    const localKeys = new Set(
+      entries
+        .filter((entry) => entry.store === "localStorage")
+        .map((entry) => entry.key),
+    );
+    this.removeLocalKeys((key) => localKeys.has(key));
+  }
+
+  // ================== 备份 ==================
+
+  /**
+   * 导出本脚本写入的全部 localStorage 键值（含账号列表和数据版本）
+   */
+  exportLocal(): Record<string, string> {
+    const items: Record<string, string> = {};
+    Object.keys(localStorage)
+      .filter((key) => key.startsWith(this.prefix))
+      .forEach((key) => {
+        items[key] = localStorage.getItem(key) ?? "";
+      });
+    return items;
+  }
+
+  /**
+   * 导入 localStorage 键值
+   * 账号列表与本地合并；缓存条目合并时保留过期时间更晚的一份，其他键合并时只写入本地没有的
+   * @returns 写入的键数，以及因空间不足等原因写入失败的键数
+   */
+  importLocal(
+    items: Record<string, string>,
+    overwrite: boolean,
+  ): { written: number; failed: number } {
+    const result = { written: 0, failed: 0 };
+    Object.entries(items)
+      .filter(([key]) => key.startsWith(this.prefix))
+      .forEach(([key, value]) => {
+        try {
+          if (key === ACCOUNT_REGISTRY_KEY) {
+            const accounts: unknown = JSON.parse(value);
+            if (Array.isArray(accounts)) {
+              accountScope.importAccounts(accounts.filter(isKnownAccount));
+              result.written++;
+            }
+            return;
+          }
+
+          const existing = localStorage.getItem(key);
+          if (!overwrite && existing !== null) {
+            if (RESERVED_KEYS.has(key)) return;
+            if (
+              this.readTimestamps(existing).expiry >=
+              this.readTimestamps(value).expiry
+            ) {
+              return;
+            }
+          }
+          localStorage.setItem(key, value);
+          result.written++;
+        } catch (error) {
+          logger.warn(`导入 localStorage 键失败: ${key}`, error);
+          result.failed++;
+        }
+      });
+    return result;
+  }
+
+  /**
+   * 缓存条目的过期和访问时间，无法解析时均为 0
+   * 旧版本写入的条目没有访问时间，以写入时间代替
+   */
+  private readTimestamps(value: string): {
+    expiry: number;
+    lastAccess: number;
+  } {
+    try {
+      const item = JSON.parse(value);
+      if (typeof item?.expiry !== "number") return { expiry: 0, lastAccess: 0 };
+      return {
+        expiry: item.expiry,
+        lastAccess:
+          typeof item.lastAccess === "number"
+            ? item.lastAccess
+            : item.expiry - this.getLifetime(),
+      };
+    } catch {
+      return { expiry: 0, lastAccess: 0 };
+    }
+  }
+
+  /**
+   * 条目的有效期（毫秒）
+   */
+  private getLifetime(): number {
+    return this.config.expiryDays * 24 * 60 * 60 * 1000;
+  }
+
+  // ================== 按账号管理 ==================
+
+  /**
+   * 清除指定账号的全部缓存（同时清除两个存储）
+   */
+  async purgeAccount(mid: number): Promise<void> {
+    const namespace = accountScope.getNamespace(mid);
+    await indexedDBManager.removeByPrefix(namespace);
+    this.removeLocalKeys((key) => key.startsWith(namespace));
+    logger.log(`已清除账号 ${mid} 的缓存`);
+  }
+
+  /**
+   * 清除旧版本写入的、未区分账号的缓存
+   */
+  async purgeLegacy(): Promise<void> {
+    const keys = await indexedDBManager.getAllKeys();
+    await Promise.all(
+      keys
+        .filter((key) => this.isLegacyKey(key))
+        .map((key) => indexedDBManager.remove(key)),
+    );
+    this.removeLocalKeys((key) => this.isLegacyKey(key));
+  }
+
+  /**
+   * 统计指定账号的缓存条目数（两个存储中的同名条目只计一次）
+   */
+  async countAccountEntries(mid: number): Promise<number> {
+    const namespace = accountScope.getNamespace(mid);
+    return this.countKeys(await indexedDBManager.getAllKeys(namespace), (key) =>
+      key.startsWith(namespace),
+    );
+  }
+
+  /**
+   * 统计未区分账号的旧缓存条目数
+   */
+  async countLegacyEntries(): Promise<number> {
+    const keys = await indexedDBManager.getAllKeys();
+    return this.countKeys(
+      keys.filter((key) => this.isLegacyKey(key)),
+      (key) => this.isLegacyKey(key),
+    );
+  }
+
+  /**
+   * 带当前账号命名空间的键（IndexedDB 中的键）
+   */
+  private scoped(key: string): string {
+    return accountScope.getNamespace() + key;
+  }
+
+  /**
+   * localStorage 中的完整键
+   */
+  private storageKey(key: string): string {
+    return this.prefix + this.scoped(key);
+  }
+
+  private isLegacyKey(key: string): boolean {
+    return !NAMESPACED_KEY_PATTERN.test(key);
+  }
+
+  /**
+   * 本脚本写入的 localStorage 缓存键（去掉全局前缀）
+   */
+  private getLocalKeys(): string[] {
+    try {
+      return Object.keys(localStorage)
+        .filter((key) => key.startsWith(this.prefix) && !RESERVED_KEYS.has(key))
+        .map((key) => key.substring(this.prefix.length));
+    } catch (error) {
+      logger.error("localStorage 读取失败:", error);
+      return [];
+    }
+  }
+
+  private removeLocalKeys(match: (key: string) => boolean): void {
+    try {
+      this.getLocalKeys()
+        .filter(match)
+        .forEach((key) => localStorage.removeItem(this.prefix + key));
+    } catch (error) {
+      logger.error("localStorage 删除失败:", error);
+    }
+  }
+
+  private countKeys(
+    indexedDBKeys: string[],
+    matchLocal: (key: string) => boolean,
+  ): number {
+    return new Set([
+      ...indexedDBKeys,
+      ...this.getLocalKeys().filter(matchLocal),
+    ]).size;
+  }
+
   /**
    * 更新配置
    */
@@ -17,6 +17,7 @@ export const formatTime = (timestamp: number): string => {
  */
 export const relationMap: Record<number, { text: string; color: string }> = {
     0: { text: "未关注", color: "default" },
+    1: { text: "悄悄关注", color: "purple" },
     2: { text: "已关注", color: "blue" },
     6: { text: "互相关注", color: "green" },
     128: { text: "已拉黑", color: "red" },
@@ -32,3 +33,65 @@ export const getRelationInfo = (
 ): { text: string; color: string } => {
     return relationMap[attribute] || relationMap[0];
 };
+
+/**
+ * 格式化计数，万以上使用「万」为单位
+ * @param count 数量
+ * @returns 格式化后的字符串，如 "1.2万"
+ */
+export const formatCount = (count: number): string => {
+    if (count < 10000) return String(count);
+    return `${(count / 10000).toFixed(1).replace(/\.0$/, "")}万`;
+};
+
+/**
+ * 格式化字节数
+ * @param bytes 字节数
+ * @returns 格式化后的字符串，如 "1.5 MB"
+ */
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ["KB", "MB", "GB"];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(1).replace(/\.0$/, "")} ${units[unit]}`;
+};
+
+const RELATIVE_TIME_UNITS: [number, string][] = [
+    [24 * 60 * 60 * 1000, "天"],
+    [60 * 60 * 1000, "小时"],
+    [60 * 1000, "分钟"],
+];
+
+/**
+ * 格式化相对当前的时间
+ * @param timestamp 毫秒级时间戳
+ * @returns 格式化后的字符串，如 "3 小时前"、"2 天后"
+ */
+export const formatRelativeTime = (timestamp: number): string => {
+    const diff = timestamp - Date.now();
+    const unit = RELATIVE_TIME_UNITS.find(([ms]) => Math.abs(diff) >= ms);
+    if (!unit) return "刚刚";
+    const value = Math.floor(Math.abs(diff) / unit[0]);
+    return `${value} ${unit[1]}${diff < 0 ? "前" : "后"}`;
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+    "&": "&amp;",
+    "<": "&lt;",
+    ">": "&gt;",
+    '"': "&quot;",
+    "'": "&#39;",
+};
+
+/**
+ * 转义 HTML 特殊字符（force-graph 的悬停提示以 innerHTML 渲染）
+ * @param text 原始文本
+ * @returns 可安全插入 HTML 的文本
+ */
+export const escapeHtml = (text: string): string =>
+    text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
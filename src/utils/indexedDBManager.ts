@@ -1,77 +1,106 @@
 /**
  * IndexedDB 管理工具
  * 使用 idb 库提供的 Promise API
+ * - 记录每个条目的大小和最近访问时间，超出字节预算时按 LRU 淘汰
+ * - 过期条目由定期清理任务批量删除，不再依赖读取同一个键时的惰性删除
  */
 
-import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { IDBPDatabase } from "idb";
+import {
+  BilibiliDB,
+  CacheItem,
+  estimateSize,
+  getBilibiliDB,
+} from "./bilibiliDB";
 import logger from "./logger";
 
-interface CacheItem<T> {
-  data: T;
-  expiry: number; // 过期时间戳
+interface IndexedDBConfig {
+  expiryDays: number; // 过期天数，默认 30 天
+  maxBytes: number; // 字节预算，超出后按 LRU 淘汰
 }
 
-interface BilibiliDB extends DBSchema {
-  cache: {
-    key: string;
-    value: CacheItem<any>;
-  };
+/** 存储占用统计 */
+export interface StorageUsage {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
 }
 
-interface IndexedDBConfig {
-  expiryDays: number; // 过期天数，默认 30 天
+/** 导出的条目，保留过期时间等元数据（导入时缺少的大小和访问时间会补齐） */
+export interface CacheEntryDump {
+  key: string;
+  item: Omit<CacheItem<unknown>, "size" | "lastAccess"> &
+    Partial<Pick<CacheItem<unknown>, "size" | "lastAccess">>;
+}
+
+/** 单个条目的元数据 */
+export interface CacheEntryMeta {
+  key: string;
+  size: number;
+  expiry: number;
+  lastAccess: number;
+  /** 写入时间，由过期时间反推 */
+  writtenAt: number;
 }
 
 const DEFAULT_CONFIG: IndexedDBConfig = {
   expiryDays: 30, // 30天（1个月）
+  maxBytes: 50 * 1024 * 1024, // 与 B 站页面共用同一个源的配额，保守取 50MB
 };
 
+// 超出预算时淘汰到预算的 90%，避免每次写入都触发淘汰
+const EVICTION_TARGET_RATIO = 0.9;
+// 读取时距上次记录超过该间隔才更新访问时间，减少写入
+const ACCESS_TOUCH_INTERVAL_MS = 60 * 1000;
+
 class IndexedDBManager {
-  private dbName = "bilibili_helper_db";
-  private storeName = "cache";
-  private version = 1;
   private config: IndexedDBConfig;
-  private dbPromise: Promise<IDBPDatabase<BilibiliDB>> | null = null;
+  // 各条目的字节数，首次需要时从 size 索引加载（只读索引，不读取条目内容）
+  private sizes: Map<string, number> | null = null;
+  private sizesLoading: Promise<Map<string, number>> | null = null;
+  private usedBytes = 0;
 
   constructor(config: Partial<IndexedDBConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
   }
 
   /**
-   * 初始化数据库连接
-   * 修复: 连接失败时重置 dbPromise，允许重试
+   * 获取数据库连接（与规范化存储共享，结构和升级见 bilibiliDB）
    */
-  private async getDB(): Promise<IDBPDatabase<BilibiliDB>> {
-    if (!this.dbPromise) {
-      this.dbPromise = openDB<BilibiliDB>(this.dbName, this.version, {
-        upgrade(db) {
-          // 创建 object store
-          if (!db.objectStoreNames.contains("cache")) {
-            db.createObjectStore("cache");
-          }
-        },
-      }).catch((error) => {
-        // 连接失败时重置 dbPromise，允许下次重试
-        this.dbPromise = null;
-        throw error;
-      });
-    }
-    return this.dbPromise;
+  private getDB(): Promise<IDBPDatabase<BilibiliDB>> {
+    return getBilibiliDB();
   }
 
   /**
-   * 设置缓存
+   * 设置缓存，写入后超出字节预算时按 LRU 淘汰
+   * @param expiry 过期时间戳，默认为写入时间加上过期天数（迁移旧数据时沿用原有的过期时间）
    */
-  async set<T>(key: string, data: T): Promise<void> {
+  async set<T>(key: string, data: T, expiry?: number): Promise<void> {
+    const size = estimateSize(data);
+    if (size > this.config.maxBytes) {
+      logger.warn(`缓存条目超出字节预算，不写入: ${key} (${size} 字节)`);
+      return;
+    }
+
     try {
       const db = await this.getDB();
-      const expiry = Date.now() + this.config.expiryDays * 24 * 60 * 60 * 1000;
-      const cacheItem: CacheItem<T> = { data, expiry };
+      const now = Date.now();
+      const cacheItem: CacheItem<T> = {
+        data,
+        expiry: expiry ?? now + this.config.expiryDays * 24 * 60 * 60 * 1000,
+        size,
+        lastAccess: now,
+      };
       await db.put("cache", cacheItem, key);
+      this.track(await this.loadSizes(), key, size);
     } catch (error) {
       logger.error("IndexedDB 写入失败:", error);
       throw error;
     }
+
+    if (this.usedBytes > this.config.maxBytes) {
+      await this.evictToBytes(this.config.maxBytes * EVICTION_TARGET_RATIO);
+    }
   }
 
   /**
@@ -91,6 +120,13 @@ class IndexedDBManager {
         return null;
       }
 
+      // 更新访问时间，不阻塞读取
+      if (Date.now() - cacheItem.lastAccess > ACCESS_TOUCH_INTERVAL_MS) {
+        db.put("cache", { ...cacheItem, lastAccess: Date.now() }, key).catch(
+          (error) => logger.warn("IndexedDB 更新访问时间失败:", error),
+        );
+      }
+
       return cacheItem.data as T;
     } catch (error) {
       logger.error("IndexedDB 读取失败:", error);
@@ -98,6 +134,16 @@ class IndexedDBManager {
     }
   }
 
+  /**
+   * 条目的过期时间，不存在时返回 null
+   * 不更新访问时间，也不删除已过期的条目
+   */
+  async getExpiry(key: string): Promise<number | null> {
+    const db = await this.getDB();
+    const cacheItem = await db.get("cache", key);
+    return cacheItem ? cacheItem.expiry : null;
+  }
+
   /**
    * 删除缓存
    */
@@ -105,6 +151,7 @@ class IndexedDBManager {
     try {
       const db = await this.getDB();
       await db.delete("cache", key);
+      this.untrack(key);
     } catch (error) {
       logger.error("IndexedDB 删除失败:", error);
     }
@@ -117,18 +164,37 @@ class IndexedDBManager {
     try {
       const db = await this.getDB();
       await db.clear("cache");
+      this.sizes = new Map();
+      this.usedBytes = 0;
     } catch (error) {
       logger.error("IndexedDB 清除失败:", error);
     }
   }
 
   /**
-   * 获取所有键
+   * 删除指定前缀的缓存
+   */
+  async removeByPrefix(keyPrefix: string): Promise<void> {
+    try {
+      const db = await this.getDB();
+      const keys = await db.getAllKeys("cache", this.prefixRange(keyPrefix));
+      await db.delete("cache", this.prefixRange(keyPrefix));
+      keys.forEach((key) => this.untrack(key));
+    } catch (error) {
+      logger.error("IndexedDB 删除失败:", error);
+    }
+  }
+
+  /**
+   * 获取所有键，传入前缀时只返回该前缀下的键
    */
-  async getAllKeys(): Promise<string[]> {
+  async getAllKeys(keyPrefix?: string): Promise<string[]> {
     try {
       const db = await this.getDB();
-      const keys = await db.getAllKeys("cache");
+      const keys = await db.getAllKeys(
+        "cache",
+        keyPrefix ? this.prefixRange(keyPrefix) : undefined,
+      );
       return keys as string[];
     } catch (error) {
       logger.error("IndexedDB 获取键列表失败:", error);
@@ -136,6 +202,219 @@ class IndexedDBManager {
     }
   }
 
+  /**
+   * 所有条目的元数据（只读索引，不读取条目内容）
+   */
+  async listEntries(): Promise<CacheEntryMeta[]> {
+    try {
+      const db = await this.getDB();
+      const store = db.transaction("cache").store;
+      const entries = new Map<string, CacheEntryMeta>();
+      const readIndex = async (name: "expiry" | "lastAccess" | "size") => {
+        let cursor = await store.index(name).openKeyCursor();
+        while (cursor) {
+          const entry = entries.get(cursor.primaryKey) ?? {
+            key: cursor.primaryKey,
+            size: 0,
+            expiry: 0,
+            lastAccess: 0,
+            writtenAt: 0,
+          };
+          entry[name] = cursor.key;
+          entries.set(cursor.primaryKey, entry);
+          cursor = await cursor.continue();
+        }
+      };
+      await readIndex("expiry");
+      await readIndex("lastAccess");
+      await readIndex("size");
+
+      const lifetime = this.config.expiryDays * 24 * 60 * 60 * 1000;
+      return [...entries.values()].map((entry) => ({
+        ...entry,
+        writtenAt: entry.expiry - lifetime,
+      }));
+    } catch (error) {
+      logger.error("IndexedDB 读取条目列表失败:", error);
+      return [];
+    }
+  }
+
+  /**
+   * 导出所有条目
+   */
+  async exportEntries(): Promise<CacheEntryDump[]> {
+    const db = await this.getDB();
+    const tx = db.transaction("cache");
+    const [keys, items] = await Promise.all([
+      tx.store.getAllKeys(),
+      tx.store.getAll(),
+    ]);
+    return keys.map((key, index) => ({ key, item: items[index] }));
+  }
+
+  /**
+   * 导入条目，保留原有的过期时间
+   * @param overwrite 为 false 时只写入本地没有、或过期时间更晚（即更晚写入）的条目
+   * @returns 写入的条目数
+   */
+  async importEntries(
+    entries: CacheEntryDump[],
+    overwrite: boolean,
+  ): Promise<number> {
+    const db = await this.getDB();
+    const tx = db.transaction("cache", "readwrite");
+    const now = Date.now();
+    let written = 0;
+    for (const { key, item } of entries) {
+      if (!overwrite) {
+        const existing = await tx.store.get(key);
+        if (existing && existing.expiry >= item.expiry) continue;
+      }
+      tx.store.put(
+        {
+          ...item,
+          size: item.size ?? estimateSize(item.data),
+          lastAccess: item.lastAccess ?? now,
+        },
+        key,
+      );
+      written++;
+    }
+    await tx.done;
+
+    // 批量写入未经过逐条统计，重新从索引加载占用
+    this.sizes = null;
+    await this.loadSizes();
+    if (this.usedBytes > this.config.maxBytes) {
+      await this.evictToBytes(this.config.maxBytes * EVICTION_TARGET_RATIO);
+    }
+    return written;
+  }
+
+  // ================== 容量控制 ==================
+
+  /**
+   * 当前占用
+   */
+  async getUsage(): Promise<StorageUsage> {
+    try {
+      const sizes = await this.loadSizes();
+      return {
+        entries: sizes.size,
+        bytes: this.usedBytes,
+        maxBytes: this.config.maxBytes,
+      };
+    } catch (error) {
+      logger.error("IndexedDB 统计占用失败:", error);
+      return { entries: 0, bytes: 0, maxBytes: this.config.maxBytes };
+    }
+  }
+
+  /**
+   * 按最近访问时间从旧到新淘汰，直到占用不超过目标字节数
+   * @returns 淘汰的条目数
+   */
+  async evictToBytes(targetBytes: number): Promise<number> {
+    try {
+      const db = await this.getDB();
+      await this.loadSizes();
+      if (this.usedBytes <= targetBytes) return 0;
+
+      const tx = db.transaction("cache", "readwrite");
+      let cursor = await tx.store.index("lastAccess").openKeyCursor();
+      let evicted = 0;
+      while (cursor && this.usedBytes > targetBytes) {
+        tx.store.delete(cursor.primaryKey);
+        this.untrack(cursor.primaryKey);
+        evicted++;
+        cursor = await cursor.continue();
+      }
+      await tx.done;
+
+      logger.log(`IndexedDB 超出预算，已淘汰 ${evicted} 个最久未访问的条目`);
+      return evicted;
+    } catch (error) {
+      logger.error("IndexedDB 淘汰失败:", error);
+      return 0;
+    }
+  }
+
+  /**
+   * 删除所有已过期的条目
+   * @returns 删除的条目数
+   */
+  async sweepExpired(): Promise<number> {
+    try {
+      const db = await this.getDB();
+      const tx = db.transaction("cache", "readwrite");
+      let cursor = await tx.store
+        .index("expiry")
+        .openKeyCursor(IDBKeyRange.upperBound(Date.now()));
+      let removed = 0;
+      while (cursor) {
+        tx.store.delete(cursor.primaryKey);
+        this.untrack(cursor.primaryKey);
+        removed++;
+        cursor = await cursor.continue();
+      }
+      await tx.done;
+      return removed;
+    } catch (error) {
+      logger.error("IndexedDB 清理过期条目失败:", error);
+      return 0;
+    }
+  }
+
+  /**
+   * 从 size 索引加载各条目大小（只在首次调用时读取）
+   */
+  private async loadSizes(): Promise<Map<string, number>> {
+    if (this.sizes) return this.sizes;
+    this.sizesLoading ??= (async () => {
+      const db = await this.getDB();
+      const sizes = new Map<string, number>();
+      let used = 0;
+      let cursor = await db
+        .transaction("cache")
+        .store.index("size")
+        .openKeyCursor();
+      while (cursor) {
+        sizes.set(cursor.primaryKey, cursor.key);
+        used += cursor.key;
+        cursor = await cursor.continue();
+      }
+      this.sizes = sizes;
+      this.usedBytes = used;
+      return sizes;
+    })().finally(() => {
+      this.sizesLoading = null;
+    });
+    return this.sizesLoading;
+  }
+
+  private track(sizes: Map<string, number>, key: string, size: number): void {
+    this.usedBytes += size - (sizes.get(key) ?? 0);
+    sizes.set(key, size);
+  }
+
+  /**
+   * 从占用统计中移除（统计尚未加载时无需处理）
+   */
+  private untrack(key: string): void {
+    const size = this.sizes?.get(key);
+    if (size === undefined) return;
+    this.usedBytes -= size;
+    this.sizes!.delete(key);
+  }
+
+  /**
+   * 匹配指定前缀所有键的范围
+   */
+  private prefixRange(keyPrefix: string): IDBKeyRange {
+    return IDBKeyRange.bound(keyPrefix, keyPrefix + "\uffff");
+  }
+
   /**
    * 更新配置
    */
@@ -0,0 +1,35 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { md5 } from "./md5";
+
+describe("md5", () => {
+  // RFC 1321 附录 A.5 的测试向量
+  it.each([
+    ["", "d41d8cd98f00b204e9800998ecf8427e"],
+    ["a", "0cc175b9c0f1b6a831c399e269772661"],
+    ["abc", "900150983cd24fb0d6963f7d28e17f72"],
+    ["message digest", "f96b697d7cb7938d525a2f31aaf161d0"],
+    ["abcdefghijklmnopqrstuvwxyz", "c3fcd3d76192e4007dfb496cca67e13b"],
+    [
+      "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789",
+      "d174ab98d277d9f5a5611c2c9f419d9f",
+    ],
+    ["1234567890".repeat(8), "57edf4a22be3c955ac49da2e2107b67a"],
+  ])("md5(%j)", (input, expected) => {
+    expect(md5(input)).toBe(expected);
+  });
+
+  it("按 UTF-8 编码非 ASCII 字符", () => {
+    const input = "哔哩哔哩 (゜-゜)つロ 干杯~";
+    expect(md5(input)).toBe(
+      createHash("md5").update(input, "utf8").digest("hex"),
+    );
+  });
+
+  it("跨越 64 字节分块边界", () => {
+    for (const length of [55, 56, 63, 64, 65, 119, 120]) {
+      const input = "x".repeat(length);
+      expect(md5(input)).toBe(createHash("md5").update(input).digest("hex"));
+    }
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * MD5 摘要（RFC 1321）
+ * 仅用于 B站 WBI 签名，输入按 UTF-8 编码，输出 32 位小写十六进制
+ */
+
+// 每轮的循环左移位数
+const SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5,
+  9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11,
+  16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15,
+  21,
+];
+
+// K[i] = floor(abs(sin(i + 1)) * 2^32)
+const K = Array.from(
+  { length: 64 },
+  (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0,
+);
+
+const toHex = (word: number): string => {
+  let hex = "";
+  for (let i = 0; i < 4; i++) {
+    hex += ((word >>> (i * 8)) & 0xff).toString(16).padStart(2, "0");
+  }
+  return hex;
+};
+
+/**
+ * 计算字符串的 MD5
+ */
+export const md5 = (input: string): string => {
+  const bytes = new TextEncoder().encode(input);
+
+  // 填充：追加 0x80，补零至长度 ≡ 56 (mod 64)，再追加 64 位小端原始比特长度
+  const paddedLength = (((bytes.length + 8) >>> 6) + 1) << 6;
+  const buffer = new Uint8Array(paddedLength);
+  buffer.set(bytes);
+  buffer[bytes.length] = 0x80;
+  const view = new DataView(buffer.buffer);
+  view.setUint32(paddedLength - 8, (bytes.length << 3) >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(bytes.length / 0x20000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const word = view.getUint32(offset + g * 4, true);
+      const sum = (a + f + K[i] + word) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << SHIFTS[i]) | (sum >>> (32 - SHIFTS[i])))) | 0;
+    }
+
+    a0 = (a0 + a) | 0;
+    b0 = (b0 + b) | 0;
+    c0 = (c0 + c) | 0;
+    d0 = (d0 + d) | 0;
+  }
+
+  return toHex(a0) + toHex(b0) + toHex(c0) + toHex(d0);
+};
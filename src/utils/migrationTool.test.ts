@@ -0,0 +1,45 @@
+// @vitest-environment happy-dom
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import { indexedDBManager } from "./indexedDBManager";
+import { SCHEMA_VERSION_KEY, migrationTool } from "./migrationTool";
+
+const PREFIX = "bilibili_helper_";
+const SCOPED_KEY = "u501_followings_1001";
+const LEGACY_KEY = "followings_1001";
+
+const writeLocal = (key: string, data: unknown) =>
+  localStorage.setItem(
+    PREFIX + key,
+    JSON.stringify({ data, expiry: Date.now() + 60_000 }),
+  );
+
+beforeEach(async () => {
+  localStorage.clear();
+  await indexedDBManager.clear();
+  writeLocal(SCOPED_KEY, { list: [2001] });
+  writeLocal(LEGACY_KEY, { list: [2002] });
+});
+
+describe("migrationTool", () => {
+  it("预演只统计，不写入也不删除", async () => {
+    const report = await migrationTool.migrate({ dryRun: true });
+
+    expect(report.toVersion).toBe(0);
+    expect(report.steps[0].stats).toMatchObject({ total: 1, migrated: 1 });
+    expect(await indexedDBManager.get(SCOPED_KEY)).toBeNull();
+    expect(localStorage.getItem(PREFIX + SCOPED_KEY)).not.toBeNull();
+    expect(localStorage.getItem(SCHEMA_VERSION_KEY)).toBeNull();
+  });
+
+  it("复制并清理按账号区分的缓存，旧版未区分账号的键保持不动", async () => {
+    const report = await migrationTool.migrate();
+
+    expect(report.toVersion).toBe(2);
+    expect(await indexedDBManager.get(SCOPED_KEY)).toEqual({ list: [2001] });
+    expect(localStorage.getItem(PREFIX + SCOPED_KEY)).toBeNull();
+
+    expect(await indexedDBManager.get(LEGACY_KEY)).toBeNull();
+    expect(localStorage.getItem(PREFIX + LEGACY_KEY)).not.toBeNull();
+  });
+});
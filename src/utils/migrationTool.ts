@@ -1,12 +1,16 @@
 /**
- * localStorage 到 IndexedDB 迁移工具
- * 将现有的 localStorage 数据复制到 IndexedDB，但不删除 localStorage
+ * 本地数据迁移工具
+ * - 迁移按版本号顺序执行，本地记录已完成的数据版本，启动时只执行尚未完成的步骤
+ * - 每个步骤逐项处理，单项失败时重试，统计迁移、跳过和失败数
+ * - 有失败项的步骤不记录为已完成，下次启动时重新执行（各步骤可重复执行）
+ * - 预演模式只统计将会处理的项，不写入也不删除任何数据
  */
 
+import { ACCOUNT_REGISTRY_KEY, NAMESPACED_KEY_PATTERN } from "./accountScope";
 import { indexedDBManager } from "./indexedDBManager";
 import logger from "./logger";
 
-interface MigrationStats {
+export interface MigrationStats {
   total: number;
   migrated: number;
   failed: number;
@@ -19,38 +23,262 @@ interface CacheItem<T> {
   expiry: number;
 }
 
+/** 单项的处理结果 */
+type ItemOutcome = "migrated" | "skipped";
+
+/**
+ * 迁移步骤
+ */
+interface MigrationStep {
+  /** 完成后的数据版本，从 1 开始连续递增 */
+  version: number;
+  name: string;
+  /** 待处理的项 */
+  collect(): string[];
+  /**
+   * 处理单项，抛出异常时重试
+   * @param dryRun 为 true 时只判断是否需要处理，不做修改
+   */
+  migrate(item: string, dryRun: boolean): Promise<ItemOutcome>;
+}
+
+/** 迁移步骤概况 */
+export type MigrationStepInfo = Pick<MigrationStep, "version" | "name">;
+
+export interface MigrationProgress {
+  step: MigrationStepInfo;
+  /** 当前步骤的序号（从 1 开始）和本次待执行的步骤数 */
+  index: number;
+  count: number;
+  /** 当前步骤已处理的项数和总项数 */
+  done: number;
+  total: number;
+}
+
+export interface MigrationOptions {
+  /** 只统计，不写入也不删除 */
+  dryRun?: boolean;
+  onProgress?: (progress: MigrationProgress) => void;
+}
+
+export interface MigrationStepResult extends MigrationStepInfo {
+  stats: MigrationStats;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  fromVersion: number;
+  /** 执行后的数据版本，预演时与 fromVersion 相同 */
+  toVersion: number;
+  steps: MigrationStepResult[];
+}
+
+/** 已完成的数据版本 */
+export const SCHEMA_VERSION_KEY = "bilibili_helper_schema_version";
+/** 旧版一次性迁移的完成标记，存在时视为已完成版本 1 */
+export const LEGACY_MIGRATION_KEY = "bilibili_helper_migration_completed";
+
+const PREFIX = "bilibili_helper_";
+// 单项最多尝试次数，每次重试前等待的时间递增
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 500;
+
+// ================== 迁移步骤 ==================
+
+/**
+ * localStorage 中按账号区分的缓存键（去掉全局前缀，保留账号命名空间）
+ * 旧版未区分账号的键不迁移：无法确定所属账号，任何账号都不会读取，在账号切换中按旧版缓存清除
+ */
+const collectLocalCacheKeys = (): string[] =>
+  Object.keys(localStorage)
+    .filter(
+      (key) =>
+        key.startsWith(PREFIX) &&
+        key !== SCHEMA_VERSION_KEY &&
+        key !== LEGACY_MIGRATION_KEY &&
+        key !== ACCOUNT_REGISTRY_KEY,
+    )
+    .map((key) => key.substring(PREFIX.length))
+    .filter((key) => NAMESPACED_KEY_PATTERN.test(key));
+
+/**
+ * 读取 localStorage 缓存条目，不存在、已损坏或已过期时返回 null
+ */
+const readLocalItem = (key: string): CacheItem<unknown> | null => {
+  try {
+    const item = JSON.parse(localStorage.getItem(PREFIX + key) ?? "null");
+    if (typeof item?.expiry !== "number" || !("data" in item)) return null;
+    return Date.now() > item.expiry ? null : item;
+  } catch {
+    return null;
+  }
+};
+
+const MIGRATIONS: MigrationStep[] = [
+  {
+    version: 1,
+    name: "复制 localStorage 缓存到 IndexedDB",
+    collect: collectLocalCacheKeys,
+    async migrate(key, dryRun) {
+      const item = readLocalItem(key);
+      if (!item) return "skipped";
+
+      // IndexedDB 中已有同样新或更新的副本
+      const expiry = await indexedDBManager.getExpiry(key);
+      if (expiry !== null && expiry >= item.expiry) return "skipped";
+
+      if (!dryRun) {
+        await indexedDBManager.set(key, item.data, item.expiry);
+      }
+      return "migrated";
+    },
+  },
+  {
+    version: 2,
+    name: "清理已迁移的 localStorage 缓存",
+    collect: collectLocalCacheKeys,
+    async migrate(key, dryRun) {
+      // 已损坏或已过期的条目直接删除；有效条目确认 IndexedDB 中有同样新的副本后才删除
+      const item = readLocalItem(key);
+      if (item) {
+        const expiry = await indexedDBManager.getExpiry(key);
+        if (expiry === null || expiry < item.expiry) return "skipped";
+      }
+
+      if (!dryRun) {
+        localStorage.removeItem(PREFIX + key);
+      }
+      return "migrated";
+    },
+  },
+];
+
+/**
+ * 处理单项，失败时等待后重试
+ */
+const runWithRetry = async (
+  step: MigrationStep,
+  item: string,
+  dryRun: boolean,
+): Promise<ItemOutcome> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await step.migrate(item, dryRun);
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) throw error;
+      logger.warn(`迁移 ${item} 失败，第 ${attempt} 次重试:`, error);
+      await new Promise((resolve) =>
+        setTimeout(resolve, RETRY_DELAY_MS * attempt),
+      );
+    }
+  }
+};
+
+// ================== 执行 ==================
+
 class MigrationTool {
-  private prefix = "bilibili_helper_";
-  private migrationKey = "bilibili_helper_migration_completed";
+  // 正在执行的迁移，避免重复挂载时并发执行
+  private running: Promise<MigrationReport> | null = null;
 
   /**
-   * 检查是否已经迁移过
+   * 已完成的数据版本
    */
-  isMigrationCompleted(): boolean {
+  getVersion(): number {
     try {
-      const completed = localStorage.getItem(this.migrationKey);
-      return completed === "true";
+      const version = parseInt(
+        localStorage.getItem(SCHEMA_VERSION_KEY) ?? "",
+        10,
+      );
+      if (!Number.isNaN(version)) return version;
+      return localStorage.getItem(LEGACY_MIGRATION_KEY) === "true" ? 1 : 0;
     } catch {
-      return false;
+      return 0;
     }
   }
 
   /**
-   * 标记迁移完成
+   * 尚未完成的迁移步骤
    */
-  private markMigrationCompleted(): void {
+  getPendingSteps(): MigrationStepInfo[] {
+    const version = this.getVersion();
+    return MIGRATIONS.filter((step) => step.version > version).map(
+      ({ version, name }) => ({ version, name }),
+    );
+  }
+
+  /**
+   * 按版本顺序执行尚未完成的步骤
+   * 某个步骤有失败项时停止，不执行后续步骤
+   * 预演时执行全部步骤，但后面的步骤看不到前面步骤将要做的修改
+   */
+  migrate(options: MigrationOptions = {}): Promise<MigrationReport> {
+    if (options.dryRun) return this.run(options);
+    this.running ??= this.run(options).finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  /**
+   * 重置数据版本（用于调试）
+   */
+  resetVersion(): void {
     try {
-      localStorage.setItem(this.migrationKey, "true");
+      localStorage.removeItem(SCHEMA_VERSION_KEY);
+      localStorage.removeItem(LEGACY_MIGRATION_KEY);
+      logger.log("数据版本已重置");
     } catch (error) {
-      logger.error("无法标记迁移状态:", error);
+      logger.error("重置数据版本失败:", error);
     }
   }
 
-  /**
-   * 执行迁移
-   * @param force 是否强制重新迁移（即使之前已迁移）
-   */
-  async migrate(force: boolean = false): Promise<MigrationStats> {
+  private async run({
+    dryRun = false,
+    onProgress,
+  }: MigrationOptions): Promise<MigrationReport> {
+    const fromVersion = this.getVersion();
+    const pending = MIGRATIONS.filter((step) => step.version > fromVersion);
+    const report: MigrationReport = {
+      dryRun,
+      fromVersion,
+      toVersion: fromVersion,
+      steps: [],
+    };
+    if (pending.length === 0) return report;
+
+    logger.log(
+      `${dryRun ? "预演" : "开始"}数据迁移: v${fromVersion} → v${pending[pending.length - 1].version}`,
+    );
+
+    for (const [index, step] of pending.entries()) {
+      const stats = await this.runStep(step, dryRun, (done, total) =>
+        onProgress?.({
+          step: { version: step.version, name: step.name },
+          index: index + 1,
+          count: pending.length,
+          done,
+          total,
+        }),
+      );
+      report.steps.push({ version: step.version, name: step.name, stats });
+      logger.log(`迁移 v${step.version}「${step.name}」:`, stats);
+
+      if (dryRun) continue;
+      if (stats.failed > 0) {
+        logger.warn(`迁移 v${step.version} 有失败项，下次启动时重试`);
+        break;
+      }
+      this.setVersion(step.version);
+      report.toVersion = step.version;
+    }
+    return report;
+  }
+
+  private async runStep(
+    step: MigrationStep,
+    dryRun: boolean,
+    onProgress: (done: number, total: number) => void,
+  ): Promise<MigrationStats> {
     const stats: MigrationStats = {
       total: 0,
       migrated: 0,
@@ -59,82 +287,42 @@ class MigrationTool {
       errors: [],
     };
 
-    // 检查是否需要迁移
-    if (!force && this.isMigrationCompleted()) {
-      logger.log("迁移已完成，跳过");
-      return stats;
-    }
-
-    logger.log("开始迁移 localStorage 到 IndexedDB...");
-
+    let items: string[];
     try {
-      // 获取所有以 prefix 开头的 localStorage 键
-      const keys = Object.keys(localStorage).filter(
-        (key) => key.startsWith(this.prefix) && key !== this.migrationKey,
-      );
-
-      stats.total = keys.length;
-      logger.log(`发现 ${stats.total} 个待迁移项`);
-
-      for (const fullKey of keys) {
-        try {
-          const item = localStorage.getItem(fullKey);
-          if (!item) {
-            stats.skipped++;
-            continue;
-          }
-
-          // 解析数据
-          const cacheItem: CacheItem<any> = JSON.parse(item);
-
-          // 检查是否已过期
-          if (Date.now() > cacheItem.expiry) {
-            logger.log(`跳过过期项: ${fullKey}`);
-            stats.skipped++;
-            continue;
-          }
-
-          // 获取不带前缀的键名
-          const key = fullKey.substring(this.prefix.length);
-
-          // 写入 IndexedDB
-          await indexedDBManager.set(key, cacheItem.data);
-
-          stats.migrated++;
-          logger.log(`已迁移: ${key}`);
-        } catch (error) {
-          stats.failed++;
-          const errorMsg = `迁移失败 ${fullKey}: ${error instanceof Error ? error.message : String(error)}`;
-          stats.errors.push(errorMsg);
-          logger.error(errorMsg);
-        }
-      }
-
-      // 标记迁移完成
-      if (!force) {
-        this.markMigrationCompleted();
-      }
-
-      logger.log("迁移完成:", stats);
-      return stats;
+      items = step.collect();
     } catch (error) {
-      logger.error("迁移过程出错:", error);
+      stats.failed++;
       stats.errors.push(
-        `总体错误: ${error instanceof Error ? error.message : String(error)}`,
+        `读取待迁移项失败: ${error instanceof Error ? error.message : String(error)}`,
       );
       return stats;
     }
+
+    stats.total = items.length;
+    onProgress(0, stats.total);
+    for (const [index, item] of items.entries()) {
+      try {
+        stats[await runWithRetry(step, item, dryRun)]++;
+      } catch (error) {
+        stats.failed++;
+        const errorMsg = `迁移失败 ${item}: ${error instanceof Error ? error.message : String(error)}`;
+        stats.errors.push(errorMsg);
+        logger.error(errorMsg);
+      }
+      onProgress(index + 1, stats.total);
+    }
+    return stats;
   }
 
   /**
-   * 重置迁移状态（用于调试）
+   * 记录已完成的数据版本，同时移除旧版的完成标记
    */
-  resetMigrationStatus(): void {
+  private setVersion(version: number): void {
     try {
-      localStorage.removeItem(this.migrationKey);
-      logger.log("迁移状态已重置");
+      localStorage.setItem(SCHEMA_VERSION_KEY, String(version));
+      localStorage.removeItem(LEGACY_MIGRATION_KEY);
     } catch (error) {
-      logger.error("重置迁移状态失败:", error);
+      logger.error("无法记录数据版本:", error);
     }
   }
 }